@@ -1,23 +1,20 @@
-import baseConfig from "../../eslint.config.mjs";
+import js from "@eslint/js";
+import tseslint from "typescript-eslint";
 
-export default [
-    ...baseConfig,
+export default tseslint.config(
     {
-      "files": [
-        "**/*.json"
-      ],
-      "rules": {
-        "@nx/dependency-checks": [
-          "error",
-          {
-            "ignoredFiles": [
-              "{projectRoot}/eslint.config.{js,cjs,mjs}"
-            ]
-          }
-        ]
-      },
-      "languageOptions": {
-        "parser": (await import('jsonc-eslint-parser'))
-      }
+        ignores: ["dist/**", "node_modules/**", "examples/**"]
+    },
+    js.configs.recommended,
+    ...tseslint.configs.recommended,
+    {
+        files: ["**/*.ts"],
+        rules: {
+            "@typescript-eslint/no-unused-vars": ["error", {
+                "args": "none",
+                "varsIgnorePattern": "^_",
+                "ignoreRestSiblings": true
+            }]
+        }
     }
-];
+);
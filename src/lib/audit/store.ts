@@ -0,0 +1,179 @@
+/**
+ * Audit trail stores
+ * @description In-memory and SQL-backed persistence for repository audit entries
+ */
+
+import type { AuditTrail, EntityId, TraceId, UserId } from '../types.js';
+import type { DatabaseAdapter, Migration } from '../database/types.js';
+import type { SqlDialect } from '../query/types.js';
+import type { AuditQuery, AuditStore } from './types.js';
+import { createMigration } from '../database/migrations.js';
+import { SqlCompiler } from '../query/compiler.js';
+import { createFilter } from '../query/filters.js';
+import { deepClone, generateId } from '../utils/helpers.js';
+
+const DEFAULT_TABLE = '_audit_trail';
+
+/**
+ * Audit table row
+ */
+interface AuditRow {
+    id: string;
+    operation: AuditTrail['operation'];
+    entityType: string;
+    entityId: string;
+    changes: string | null;
+    timestamp: string;
+    userId: string | null;
+    traceId: string;
+    metadata: string | null;
+}
+
+/**
+ * In-memory audit store for tests and local development
+ */
+export class InMemoryAuditStore implements AuditStore {
+    private entries: AuditTrail[] = [];
+
+    public async record(entry: AuditTrail): Promise<void> {
+        this.entries.push(deepClone(entry));
+    }
+
+    public async query(query: AuditQuery): Promise<AuditTrail[]> {
+        const matches = this.entries
+            .filter(entry =>
+                (!query.entityType || entry.entityType === query.entityType) &&
+                (!query.entityId || entry.entityId === query.entityId) &&
+                (!query.userId || entry.userId === query.userId) &&
+                (!query.operation || entry.operation === query.operation) &&
+                (!query.from || entry.timestamp >= query.from) &&
+                (!query.to || entry.timestamp <= query.to)
+            )
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+        const offset = query.offset || 0;
+        return query.limit ? matches.slice(offset, offset + query.limit) : matches.slice(offset);
+    }
+
+    /**
+     * Remove all recorded entries
+     */
+    public clear(): void {
+        this.entries = [];
+    }
+}
+
+/**
+ * SQL audit store writing through a DatabaseAdapter
+ */
+export class SqlAuditStore implements AuditStore {
+    private readonly adapter: DatabaseAdapter;
+    private readonly compiler: SqlCompiler;
+    private readonly table: string;
+
+    constructor(adapter: DatabaseAdapter, tableName = DEFAULT_TABLE) {
+        this.adapter = adapter;
+        this.compiler = new SqlCompiler(adapter.type as SqlDialect);
+        this.table = this.compiler.quoteIdentifier(tableName);
+    }
+
+    public async record(entry: AuditTrail): Promise<void> {
+        const columns = ['id', 'operation', 'entityType', 'entityId', 'changes', 'timestamp', 'userId', 'traceId', 'metadata'];
+        const placeholders = columns.map((_, index) => this.compiler.placeholder(index + 1));
+
+        await this.adapter.execute(
+            `INSERT INTO ${this.table} (${columns.map(column => this.compiler.quoteIdentifier(column)).join(', ')}) VALUES (${placeholders.join(', ')})`,
+            [
+                generateId(),
+                entry.operation,
+                entry.entityType,
+                entry.entityId,
+                entry.changes ? JSON.stringify(entry.changes) : null,
+                entry.timestamp.toISOString(),
+                entry.userId ?? null,
+                entry.traceId,
+                entry.metadata ? JSON.stringify(entry.metadata) : null,
+            ]
+        );
+    }
+
+    public async query(query: AuditQuery): Promise<AuditTrail[]> {
+        const filter = createFilter();
+        if (query.entityType) filter.eq('entityType', query.entityType);
+        if (query.entityId) filter.eq('entityId', query.entityId);
+        if (query.userId) filter.eq('userId', query.userId);
+        if (query.operation) filter.eq('operation', query.operation);
+        if (query.from) filter.gte('timestamp', query.from.toISOString());
+        if (query.to) filter.lte('timestamp', query.to.toISOString());
+
+        const compiled = this.compiler.compile({
+            filter: filter.build(),
+            sort: [{ field: 'timestamp', direction: 'ASC' }],
+            limit: query.limit,
+            offset: query.offset,
+        });
+
+        const rows = await this.adapter.query<AuditRow>(`SELECT * FROM ${this.table} ${compiled.sql}`, compiled.params);
+        return rows.map(row => this.toAuditTrail(row));
+    }
+
+    private toAuditTrail(row: AuditRow): AuditTrail {
+        const entry: AuditTrail = {
+            operation: row.operation,
+            entityType: row.entityType,
+            entityId: row.entityId as EntityId,
+            timestamp: new Date(row.timestamp),
+            traceId: row.traceId as TraceId,
+        };
+
+        if (row.changes) {
+            entry.changes = JSON.parse(row.changes);
+        }
+        if (row.userId) {
+            entry.userId = row.userId as UserId;
+        }
+        if (row.metadata) {
+            entry.metadata = JSON.parse(row.metadata);
+        }
+
+        return entry;
+    }
+}
+
+/**
+ * Create the migration that provisions the audit trail table
+ * @param options - Table name and SQL dialect
+ * @returns Migration for MigrationManager
+ */
+export function createAuditTrailMigration(options: { tableName?: string; dialect?: SqlDialect } = {}): Migration {
+    const tableName = options.tableName || DEFAULT_TABLE;
+    const dialect = options.dialect || 'sqlite';
+    const compiler = new SqlCompiler(dialect);
+    const table = compiler.quoteIdentifier(tableName);
+    const column = (name: string) => compiler.quoteIdentifier(name);
+    const indexName = column(`idx${tableName}_entity`);
+    const indexColumns = `(${column('entityType')}, ${column('entityId')}, ${column('timestamp')})`;
+
+    // MySQL has no CREATE INDEX IF NOT EXISTS, so the index is declared with the table there
+    const migration = createMigration(`create${tableName}`, `Create audit trail table ${tableName}`)
+        .setTimestamp(new Date(0))
+        .addUp(`CREATE TABLE IF NOT EXISTS ${table} (
+        ${column('id')} VARCHAR(64) PRIMARY KEY,
+        ${column('operation')} VARCHAR(16) NOT NULL,
+        ${column('entityType')} VARCHAR(128) NOT NULL,
+        ${column('entityId')} VARCHAR(64) NOT NULL,
+        ${column('changes')} TEXT,
+        ${column('timestamp')} VARCHAR(32) NOT NULL,
+        ${column('userId')} VARCHAR(64),
+        ${column('traceId')} VARCHAR(64) NOT NULL,
+        ${column('metadata')} TEXT${dialect === 'mysql' ? `,
+        INDEX ${indexName} ${indexColumns}` : ''}
+      )`);
+    if (dialect !== 'mysql') {
+        migration.addUp(`CREATE INDEX IF NOT EXISTS ${indexName} ON ${table} ${indexColumns}`);
+    }
+
+    return migration
+        .addDown(`DROP TABLE ${table}`)
+        .build();
+}
@@ -0,0 +1,25 @@
+import type { AuditTrail, EntityId, UserId } from '../types.js';
+
+/**
+ * Audit history query
+ */
+export interface AuditQuery {
+    entityType?: string;
+    entityId?: EntityId;
+    userId?: UserId;
+    operation?: AuditTrail['operation'];
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * Pluggable persistence for audit trail entries
+ */
+export interface AuditStore {
+    /** Persist an audit entry */
+    record(entry: AuditTrail): Promise<void>;
+    /** Fetch audit entries ordered from oldest to newest */
+    query(query: AuditQuery): Promise<AuditTrail[]>;
+}
@@ -0,0 +1,186 @@
+import type { BaseEntity, EntityId, UserId } from '../types.js';
+import type { DomainEvent } from '../events/types.js';
+import type { IAggregateRoot } from './types.js';
+import type { StateMachine, StateTransitionEvent, TransitionOptions } from './state-machine.js';
+import { Entity } from './entity.js';
+import { InvariantViolationError } from '../errors/domain.js';
+import { createDomainEvent } from '../events/bus.js';
+
+/**
+ * Named invariant checked before events are recorded and before the aggregate is saved
+ */
+export interface AggregateInvariant {
+    name: string;
+    message: string;
+    check: () => boolean;
+}
+
+// Kept outside the instance so spreads, JSON and audit diffs never see aggregate bookkeeping
+const uncommittedEvents = new WeakMap<object, DomainEvent[]>();
+const persistedVersions = new WeakMap<object, number>();
+
+/**
+ * Abstract aggregate root recording domain events
+ */
+export abstract class AggregateRoot<TEvent extends DomainEvent = DomainEvent>
+    extends Entity
+    implements IAggregateRoot<BaseEntity> {
+
+    constructor(data: Partial<BaseEntity> = {}) {
+        super(data);
+        persistedVersions.set(this, this.version);
+    }
+
+    public getId(): EntityId {
+        return this.id;
+    }
+
+    public getVersion(): number {
+        return this.version;
+    }
+
+    /**
+     * Version stored in the database when the aggregate was loaded or last saved
+     */
+    public getPersistedVersion(): number {
+        return persistedVersions.get(this) ?? this.version;
+    }
+
+    public override markAsUpdated(userId?: UserId): void {
+        if (!persistedVersions.has(this)) {
+            persistedVersions.set(this, this.version);
+        }
+        super.markAsUpdated(userId);
+    }
+
+    /**
+     * Record that the aggregate has been stored at the given version
+     */
+    public markAsPersisted(version: number): void {
+        this.version = version;
+        persistedVersions.set(this, version);
+    }
+
+    public getUncommittedEvents(): TEvent[] {
+        return [...(uncommittedEvents.get(this) || [])] as TEvent[];
+    }
+
+    public markEventsAsCommitted(): void {
+        uncommittedEvents.delete(this);
+    }
+
+    /**
+     * Throw InvariantViolationError for the first invariant that does not hold
+     */
+    public assertInvariants(): void {
+        for (const invariant of this.invariants()) {
+            this.ensure(invariant.check(), invariant.name, invariant.message);
+        }
+    }
+
+    public override toString(): string {
+        return `${this.getEntityType()}(${this.id})`;
+    }
+
+    /**
+     * Rebuild state by applying past events through `when`
+     */
+    public loadFromHistory(events: DomainEvent[]): void {
+        for (const event of events) {
+            this.when(event as TEvent);
+            if (event.version !== undefined) {
+                this.version = event.version;
+            }
+        }
+        persistedVersions.set(this, this.version);
+    }
+
+    /**
+     * Capture the aggregate state for a snapshot
+     */
+    public toSnapshot(): Record<string, unknown> {
+        return { ...this } as Record<string, unknown>;
+    }
+
+    /**
+     * Restore state captured by `toSnapshot` at a stream version
+     */
+    public restoreSnapshot(state: Record<string, unknown>, version: number): void {
+        Object.assign(this, state);
+        for (const field of ['createdAt', 'updatedAt', 'deletedAt'] as const) {
+            const value = state[field];
+            if (typeof value === 'string' || typeof value === 'number') {
+                (this as unknown as Record<string, unknown>)[field] = new Date(value);
+            }
+        }
+        this.version = version;
+        persistedVersions.set(this, version);
+    }
+
+    /**
+     * Record a domain event once the aggregate invariants hold
+     * @description The event is applied through `when` first; missing aggregate fields on the
+     * event are filled from this aggregate.
+     */
+    protected raise(event: TEvent): TEvent {
+        const recorded = {
+            ...event,
+            aggregateId: event.aggregateId ?? this.id,
+            aggregateType: event.aggregateType ?? this.getEntityType(),
+            tenantId: event.tenantId ?? this.tenantId,
+        };
+
+        this.when(recorded);
+        this.assertInvariants();
+        uncommittedEvents.set(this, [...(uncommittedEvents.get(this) || []), recorded]);
+
+        return recorded;
+    }
+
+    /**
+     * Apply an event to the aggregate state (override in event-sourced aggregates)
+     */
+    protected when(event: TEvent): void {
+        // State-based aggregates mutate before raising; nothing to apply
+    }
+
+    /**
+     * Create and record a domain event from a type and payload
+     */
+    protected raiseEvent<TType extends TEvent['type']>(
+        type: TType,
+        payload: Extract<TEvent, { type: TType }>['payload'],
+        metadata?: Record<string, unknown>
+    ): TEvent {
+        return this.raise(createDomainEvent(type, payload, { metadata }) as unknown as TEvent);
+    }
+
+    /**
+     * Apply a state machine transition and record its event with the aggregate's events
+     */
+    protected async applyTransition<TEntity extends BaseEntity, TState extends string>(
+        machine: StateMachine<TEntity, TState>,
+        name: string,
+        options: Omit<TransitionOptions, 'skipEvents'> = {}
+    ): Promise<StateTransitionEvent> {
+        const event = await machine.transition(this as unknown as TEntity, name, options);
+        this.raise(event as unknown as TEvent);
+        return event;
+    }
+
+    /**
+     * Throw InvariantViolationError when a condition does not hold
+     */
+    protected ensure(condition: boolean, invariant: string, message: string): asserts condition {
+        if (!condition) {
+            throw new InvariantViolationError(message, invariant, this.id, this.getEntityType());
+        }
+    }
+
+    /**
+     * Invariants of the aggregate (override in subclasses)
+     */
+    protected invariants(): AggregateInvariant[] {
+        return [];
+    }
+}
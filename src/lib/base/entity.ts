@@ -3,10 +3,20 @@ import type {
     BaseEntity,
     EntityId,
     UserId,
+    TenantId,
     TraceId,
     AuditTrail,
 } from '../types.js';
 import { createEntityId, createTraceId } from '../types.js';
+import { deepClone, diffObjects } from '../utils/helpers.js';
+
+/**
+ * Fields bumped by every write and left out of change sets
+ */
+const TRACKING_IGNORED_FIELDS = ['updatedAt', 'version'];
+
+// Kept outside the instance so spreads, JSON and audit diffs never see the snapshot
+const snapshots = new WeakMap<object, Record<string, unknown>>();
 
 /**
  * Abstract base entity class that provides common functionality
@@ -20,6 +30,7 @@ export abstract class Entity implements BaseEntity {
     public updatedBy?: UserId;
     public version: number;
     public deletedAt?: Date;
+    public readonly tenantId?: TenantId;
     public metadata?: Record<string, unknown>;
 
     constructor(data: Partial<BaseEntity> = {}) {
@@ -30,6 +41,7 @@ export abstract class Entity implements BaseEntity {
         this.updatedBy = data.updatedBy;
         this.version = data.version || 1;
         this.deletedAt = data.deletedAt;
+        this.tenantId = data.tenantId;
         this.metadata = data.metadata || {};
     }
 
@@ -114,8 +126,9 @@ export abstract class Entity implements BaseEntity {
             traceId: traceId || createTraceId(nanoid()),
         };
 
-        if (changes) {
-            auditTrail.changes = changes;
+        const trackedChanges = changes ?? (operation === 'UPDATE' && this.isTracked() ? this.getChanges() : undefined);
+        if (trackedChanges) {
+            auditTrail.changes = trackedChanges;
         }
         if (userId) {
             auditTrail.userId = userId;
@@ -128,19 +141,59 @@ export abstract class Entity implements BaseEntity {
     }
 
     /**
-     * Convert entity to plain object
+     * Accept the current state as persisted (called by repositories after load and save)
+     */
+    public commitChanges(): void {
+        snapshots.set(this, deepClone(this.getTrackedState()));
+    }
+
+    /**
+     * Check whether a persisted snapshot exists to compare against
+     */
+    public isTracked(): boolean {
+        return snapshots.has(this);
+    }
+
+    /**
+     * Check whether the entity differs from its persisted state (always true when untracked)
+     */
+    public isDirty(): boolean {
+        return !this.isTracked() || Object.keys(this.getChanges()).length > 0;
+    }
+
+    /**
+     * Field changes since the last commit; nested metadata is reported with dotted paths (e.g. `metadata.plan`)
+     */
+    public getChanges(): Record<string, { from: unknown; to: unknown }> {
+        return diffObjects(snapshots.get(this), this.getTrackedState(), TRACKING_IGNORED_FIELDS);
+    }
+
+    /**
+     * Top-level fields with changes since the last commit
+     */
+    public getChangedFields(): string[] {
+        return Array.from(new Set(Object.keys(this.getChanges()).map(path => path.split('.')[0])));
+    }
+
+    /**
+     * Value of a field at the last commit
+     */
+    public getOriginalValue<T = unknown>(field: string): T | undefined {
+        return snapshots.get(this)?.[field] as T | undefined;
+    }
+
+    /**
+     * State compared by dirty tracking (own enumerable fields, including subclass fields)
+     */
+    protected getTrackedState(): Record<string, unknown> {
+        return { ...this } as Record<string, unknown>;
+    }
+
+    /**
+     * Convert entity to plain object, including fields declared by subclasses
      */
     public toPlainObject(): Record<string, unknown> {
-        return {
-            id: this.id,
-            createdAt: this.createdAt,
-            updatedAt: this.updatedAt,
-            createdBy: this.createdBy,
-            updatedBy: this.updatedBy,
-            version: this.version,
-            deletedAt: this.deletedAt,
-            metadata: this.metadata,
-        };
+        return { ...this } as Record<string, unknown>;
     }
 
     /**
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import type { BaseEntity } from '../types.js';
+import type { IEntityFactory } from './types.js';
+import { Entity } from './entity.js';
+import { DomainValidationError } from '../errors/domain.js';
+import { generateId, isPlainObject } from '../utils/helpers.js';
+
+/**
+ * Entity class constructed from validated data
+ */
+export type EntityConstructor<TEntity extends BaseEntity> = new (data: Partial<TEntity>) => TEntity;
+
+/**
+ * Issue raised while coercing a database row
+ */
+type CoercionIssue = DomainValidationError['issues'][number];
+
+/**
+ * Epoch values below this are taken as seconds (D1 `unixepoch()`, Drizzle `timestamp` mode)
+ */
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+/**
+ * SQLite `datetime()` / `CURRENT_TIMESTAMP` text: UTC, without a zone designator
+ */
+const SQLITE_DATETIME = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)$/;
+
+/**
+ * Underlying schema types, stripping optional/nullable/default/effects wrappers and expanding unions
+ */
+const baseTypes = (schema: z.ZodTypeAny): z.ZodTypeAny[] => {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodBranded) {
+        return baseTypes(schema.unwrap());
+    }
+    if (schema instanceof z.ZodDefault) {
+        return baseTypes(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodEffects) {
+        return baseTypes(schema.innerType());
+    }
+    if (schema instanceof z.ZodUnion) {
+        return (schema.options as z.ZodTypeAny[]).flatMap(baseTypes);
+    }
+    return [schema];
+};
+
+const coerceDate = (value: unknown): unknown => {
+    if (typeof value === 'number' || typeof value === 'bigint') {
+        const epoch = Number(value);
+        return new Date(Math.abs(epoch) < EPOCH_SECONDS_LIMIT ? epoch * 1000 : epoch);
+    }
+    if (typeof value === 'string') {
+        const sqlite = SQLITE_DATETIME.exec(value.trim());
+        const date = new Date(sqlite ? `${sqlite[1]}T${sqlite[2]}Z` : value);
+        return Number.isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+};
+
+const coerceBoolean = (value: unknown): unknown => {
+    if (value === 1 || value === '1' || value === 'true') return true;
+    if (value === 0 || value === '0' || value === 'false') return false;
+    if (typeof value === 'bigint') return value !== 0n;
+    return value;
+};
+
+/**
+ * Coerce a database row to the types a Zod object schema expects
+ * @description Converts date strings (SQLite text without a zone as UTC) and epoch numbers to
+ * dates, 0/1 to booleans, JSON text to objects/arrays, bigint to number, and NULL to undefined for
+ * optional fields. Values that cannot be coerced are left as-is (so the schema reports them);
+ * unparsable JSON is reported as an issue.
+ * @param schema - Zod object schema
+ * @param row - Database row
+ * @returns Coerced record and issues found while coercing
+ */
+export function coerceRow(
+    schema: z.AnyZodObject,
+    row: Record<string, unknown>
+): { data: Record<string, unknown>; issues: CoercionIssue[] } {
+    const data: Record<string, unknown> = { ...row };
+    const issues: CoercionIssue[] = [];
+
+    for (const [field, fieldSchema] of Object.entries(schema.shape as z.ZodRawShape)) {
+        const value = row[field];
+
+        if (value === null && fieldSchema.isOptional() && !fieldSchema.isNullable()) {
+            data[field] = undefined;
+            continue;
+        }
+        if (value === undefined || value === null) {
+            continue;
+        }
+
+        const bases = baseTypes(fieldSchema);
+        const expects = (type: abstract new (...args: never[]) => z.ZodTypeAny) => bases.some(base => base instanceof type);
+
+        if (expects(z.ZodDate)) {
+            data[field] = coerceDate(value);
+        } else if (expects(z.ZodBoolean)) {
+            data[field] = coerceBoolean(value);
+        } else if (expects(z.ZodNumber) && typeof value === 'bigint') {
+            data[field] = Number(value);
+        } else if (
+            (expects(z.ZodObject) || expects(z.ZodRecord) || expects(z.ZodArray)) &&
+            typeof value === 'string' && !expects(z.ZodString)
+        ) {
+            try {
+                data[field] = JSON.parse(value);
+            } catch {
+                issues.push({ field, message: 'Invalid JSON text', code: 'INVALID_JSON', value });
+            }
+        }
+    }
+
+    return { data, issues };
+}
+
+/**
+ * Entity factory hydrating entities from database rows through a Zod schema
+ * @description The schema should extend `BaseEntitySchema`. Rows are coerced with `coerceRow`,
+ * validated, and passed to the entity constructor; coercion and validation failures are reported
+ * together as a DomainValidationError.
+ */
+export class EntityFactory<TEntity extends BaseEntity, TSchema extends z.AnyZodObject = z.AnyZodObject>
+    implements IEntityFactory<TEntity> {
+
+    protected readonly schema: TSchema;
+    protected readonly entityClass: EntityConstructor<TEntity>;
+    private readonly entityType: string;
+
+    constructor(schema: TSchema, entityClass: EntityConstructor<TEntity>, entityType?: string) {
+        this.schema = schema;
+        this.entityClass = entityClass;
+        this.entityType = entityType || entityClass.name;
+    }
+
+    /**
+     * Create a new entity, filling identity, timestamps and version
+     */
+    public create(data: Partial<TEntity>): TEntity {
+        const now = new Date();
+        return this.build({
+            id: generateId(),
+            createdAt: now,
+            updatedAt: now,
+            version: 1,
+            ...data,
+        });
+    }
+
+    /**
+     * Hydrate an entity from a database row or other plain object
+     * @throws DomainValidationError when the row cannot be coerced to the schema
+     */
+    public createFromPlainObject(data: Record<string, unknown>): TEntity {
+        const entity = this.build(data);
+
+        // Hydrated entities reflect persisted state
+        if (entity instanceof Entity) {
+            entity.commitChanges();
+        }
+
+        return entity;
+    }
+
+    public getEntityType(): string {
+        return this.entityType;
+    }
+
+    private build(data: Record<string, unknown>): TEntity {
+        const { data: coerced, issues } = coerceRow(this.schema, data);
+        const result = this.schema.safeParse(coerced);
+
+        if (!result.success || issues.length > 0) {
+            const failed = new Set(issues.map(issue => issue.field));
+            const schemaIssues = result.success ? [] : result.error.issues
+                .map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message,
+                    code: issue.code.toUpperCase(),
+                    value: issue.path.reduce<unknown>((value, key) => isPlainObject(value) || Array.isArray(value)
+                        ? (value as Record<string, unknown>)[key]
+                        : undefined, data),
+                }))
+                .filter(issue => !failed.has(issue.field));
+
+            throw new DomainValidationError(
+                `Invalid ${this.entityType} data`,
+                this.entityType,
+                [...issues, ...schemaIssues]
+            );
+        }
+
+        return new this.entityClass(result.data as Partial<TEntity>);
+    }
+}
+
+/**
+ * Create an entity factory
+ */
+export function createEntityFactory<TEntity extends BaseEntity, TSchema extends z.AnyZodObject>(
+    schema: TSchema,
+    entityClass: EntityConstructor<TEntity>,
+    entityType?: string
+): EntityFactory<TEntity, TSchema> {
+    return new EntityFactory(schema, entityClass, entityType);
+}
@@ -1,4 +1,12 @@
+export * from './aggregate.js';
 export * from './entity.js';
+export * from './factory.js';
+export * from './relations.js';
 export * from './repository.js';
+export * from './retention.js';
 export * from './service.js';
-export * from './types.js'; 
\ No newline at end of file
+export * from './specification.js';
+export * from './state-machine.js';
+export * from './types.js';
+export * from './unit-of-work.js';
+export * from './value-object.js'; 
\ No newline at end of file
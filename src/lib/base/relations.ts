@@ -0,0 +1,123 @@
+import type { BaseEntity, EntityId, FilterCriteria } from '../types.js';
+import type { BaseRepository } from './repository.js';
+
+export type RelationKind = 'one-to-many' | 'many-to-many';
+
+/**
+ * What a cascading delete does with dependants: delete them, or refuse while any exist
+ */
+export type RelationDeleteAction = 'cascade' | 'restrict';
+
+/**
+ * Dependants of a parent repository
+ */
+export interface RelationDefinition {
+    name: string;
+    kind: RelationKind;
+    /** Repository holding the dependent rows (the join rows for many-to-many) */
+    target: BaseRepository<BaseEntity, unknown, unknown>;
+    /** Field of the dependent rows referencing the parent id */
+    foreignKey: string;
+    onDelete: RelationDeleteAction;
+}
+
+export interface OneToManyOptions {
+    foreignKey: string;
+    /** Default: 'cascade' */
+    onDelete?: RelationDeleteAction;
+}
+
+export interface ManyToManyOptions {
+    /** Repository of the join rows */
+    through: BaseRepository<BaseEntity, unknown, unknown>;
+    /** Field of the join rows referencing the parent id */
+    foreignKey: string;
+    /** Default: 'cascade' */
+    onDelete?: RelationDeleteAction;
+}
+
+/**
+ * Rows deleted by one step of a cascading delete
+ * @description `ids` are the rows found when the cascade was planned; they drive hooks and audit.
+ * Repositories deleting in one statement batch re-select dependants through `dependency` instead,
+ * so rows added after planning are deleted too.
+ */
+export interface CascadeDeleteStep {
+    repository: BaseRepository<BaseEntity, unknown, unknown>;
+    ids: EntityId[];
+    soft: boolean;
+    /** How the rows depend on the previous step (absent for the rows the delete started from) */
+    dependency?: CascadeDependency;
+}
+
+/**
+ * Relation linking the rows of a cascade step, or of a restriction, to the rows of a parent step
+ */
+export interface CascadeDependency {
+    relation: RelationDefinition;
+    parent: CascadeDeleteStep;
+    /** Implicit filters (tenant, soft delete) the dependants are looked up with */
+    scope: FilterCriteria;
+}
+
+/**
+ * Registry of the relations followed by cascading deletes
+ * @description Pass the registry as `relations` in the config of parent repositories; relations
+ * may be declared after the repositories are created.
+ * @example
+ * const relations = createRelationRegistry()
+ *     .oneToMany(authors, 'posts', posts, { foreignKey: 'authorId' })
+ *     .manyToMany(posts, 'tags', { through: postTags, foreignKey: 'postId' });
+ */
+export class RelationRegistry {
+    private readonly relations: Map<BaseRepository<BaseEntity, unknown, unknown>, RelationDefinition[]> = new Map();
+
+    /**
+     * Declare children owned by the parent; they are deleted in the parent's mode (soft or hard)
+     */
+    public oneToMany(
+        parent: BaseRepository<BaseEntity, unknown, unknown>,
+        name: string,
+        target: BaseRepository<BaseEntity, unknown, unknown>,
+        options: OneToManyOptions
+    ): this {
+        return this.add(parent, {
+            name,
+            kind: 'one-to-many',
+            target,
+            foreignKey: options.foreignKey,
+            onDelete: options.onDelete || 'cascade',
+        });
+    }
+
+    /**
+     * Declare join rows linking the parent to other entities
+     * @description Only the join rows are deleted, never the entities on the other side. They are
+     * soft deleted when the parent is and the join repository soft deletes, otherwise hard deleted.
+     */
+    public manyToMany(parent: BaseRepository<BaseEntity, unknown, unknown>, name: string, options: ManyToManyOptions): this {
+        return this.add(parent, {
+            name,
+            kind: 'many-to-many',
+            target: options.through,
+            foreignKey: options.foreignKey,
+            onDelete: options.onDelete || 'cascade',
+        });
+    }
+
+    public getRelations(repository: BaseRepository<BaseEntity, unknown, unknown>): RelationDefinition[] {
+        return this.relations.get(repository) || [];
+    }
+
+    private add(parent: BaseRepository<BaseEntity, unknown, unknown>, relation: RelationDefinition): this {
+        this.relations.set(parent, [...this.getRelations(parent), relation]);
+        return this;
+    }
+}
+
+/**
+ * Create a relation registry
+ */
+export function createRelationRegistry(): RelationRegistry {
+    return new RelationRegistry();
+}
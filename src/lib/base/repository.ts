@@ -1,4 +1,5 @@
 import type {
+    AuditTrail,
     BaseEntity,
     EntityId,
     CreateOptions,
@@ -10,10 +11,50 @@ import type {
     SearchQuery,
     SearchResult,
     FilterCriteria,
+    FilterCondition,
+    OperationContext,
+    TenantId,
+    TraceId,
 } from '../types.js';
-import type { IRepository, RepositoryConfig } from './types.js';
+import type {
+    BulkDeleteOptions,
+    BulkOptions,
+    BulkResult,
+    BulkUpsertOptions,
+    IAggregateRoot,
+    IRepository,
+    ISpecification,
+    RepositoryConfig,
+    UpsertOptions,
+} from './types.js';
+import type { CascadeDeleteStep, CascadeDependency } from './relations.js';
+import type { AuditQuery } from '../audit/types.js';
+import type { DomainEvent } from '../events/types.js';
+
+import { AggregateRoot } from './aggregate.js';
+import { Entity } from './entity.js';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors/base.js';
+import { BusinessRuleError, ConcurrencyError } from '../errors/domain.js';
+import { chunk, diffObjects, generateTraceId } from '../utils/helpers.js';
+
+/**
+ * Fields that change on every write and are left out of audit diffs
+ */
+const AUDIT_IGNORED_FIELDS = ['updatedAt', 'version'];
+
+const DEFAULT_BULK_BATCH_SIZE = 100;
+
+/**
+ * Values bound per lookup query (dependant parent ids, upsert conflict values), within D1's bound parameter limit
+ */
+const LOOKUP_SIZE = 50;
 
-import { generateTraceId } from '../utils/helpers.js';
+const toError = (error: unknown): Error => error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Outcome of one item written in a batch
+ */
+type BatchWrite<TItem, TOutput> = { item: TItem; output?: TOutput | null; error?: Error };
 
 /**
  * Abstract base repository class (lightweight for serverless)
@@ -43,24 +84,182 @@ export abstract class BaseRepository<
     protected abstract executeCreate(data: TCreateInput, options?: CreateOptions): Promise<TEntity>;
     protected abstract executeFindById(id: EntityId, options?: FindOptions): Promise<TEntity | null>;
     protected abstract executeFindMany(criteria: FilterCriteria, options?: FindOptions): Promise<TEntity[]>;
-    protected abstract executeUpdate(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity>;
+    /**
+     * Apply an update. When `options.expectedVersion` is set the write must be a
+     * compare-and-swap on `version` (bumping it on success); resolve `null` when no
+     * row matched so the base class can report NotFoundError or ConcurrencyError.
+     */
+    protected abstract executeUpdate(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity | null>;
     protected abstract executeDelete(id: EntityId, options?: DeleteOptions): Promise<void>;
     protected abstract executeCount(criteria?: FilterCriteria): Promise<number>;
-    protected abstract executeSearch(query: SearchQuery): Promise<SearchResult<TEntity>>;
+    /**
+     * Search entities, restricted to rows matching `criteria` (soft delete and tenant scope)
+     */
+    protected abstract executeSearch(query: SearchQuery, criteria: FilterCriteria): Promise<SearchResult<TEntity>>;
+
+    // Batch primitives: override with atomic multi-row writes. Results are aligned with the input
+    // (null for items not written); returning null means "unsupported", so items are written one at a time.
+    protected async executeCreateMany(items: TCreateInput[], options?: BulkOptions): Promise<Array<TEntity | null> | null> {
+        return null;
+    }
+
+    protected async executeUpdateMany(ids: EntityId[], patch: TUpdateInput, options?: BulkOptions): Promise<Array<TEntity | null> | null> {
+        return null;
+    }
+
+    protected async executeDeleteMany(ids: EntityId[], options?: BulkDeleteOptions): Promise<Array<EntityId | null> | null> {
+        return null;
+    }
+
+    protected async executeUpsertMany(
+        items: TCreateInput[],
+        conflictFields: string[],
+        options?: BulkUpsertOptions
+    ): Promise<Array<TEntity | null> | null> {
+        return null;
+    }
+
+    /**
+     * Apply the deletes of a cascade, dependants first
+     * @description Override to apply every step in one transaction, failing it when a `restrict`
+     * relation in `restrictions` has gained dependants since planning. This default cannot, so it
+     * only handles cascades without dependants, deleting row by row.
+     * @throws ValidationError when the cascade reaches dependants
+     */
+    protected async executeCascadeDelete(steps: CascadeDeleteStep[], restrictions: CascadeDependency[] = []): Promise<void> {
+        if (steps.some(step => step.dependency && step.ids.length > 0)) {
+            throw new ValidationError('Cascading delete cannot be applied atomically', [{
+                field: 'relations',
+                message: `${this.constructor.name} does not support transactional cascading deletes`,
+                code: 'CASCADE_NOT_ATOMIC',
+            }]);
+        }
+
+        for (const step of steps) {
+            for (const id of step.ids) {
+                await step.repository.executeDelete(id, { soft: step.soft });
+            }
+        }
+    }
+
+    /**
+     * Insert or update one entity matched on `conflictFields`
+     * @description Default implementation looks the row up and then updates or creates it, so it is
+     * not atomic; SQL repositories override it with a native upsert. A soft-deleted match is restored.
+     */
+    protected async executeUpsert(data: TCreateInput, conflictFields: string[], options?: UpsertOptions): Promise<TEntity> {
+        const existing = await this.findConflicting(data, conflictFields);
+
+        if (!existing) {
+            return this.executeCreate(data, options);
+        }
+
+        const tenantId = this.resolveTenant(options?.context);
+        if (tenantId && existing.tenantId !== tenantId) {
+            throw this.createTenantError(options?.context, `Access to ${this.getEntityType()} '${existing.id}' is forbidden`, existing.id);
+        }
+
+        const patch = { ...data, deletedAt: null } as unknown as TUpdateInput;
+        const updated = await this.executeUpdate(existing.id, patch, { ...options, expectedVersion: undefined });
+        if (!updated) {
+            throw new NotFoundError(this.getEntityType(), existing.id);
+        }
+        return updated;
+    }
 
     /**
      * Create a new entity
      */
     async create(data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
         try {
+            data = this.stampTenant(data, options?.context);
             await this.beforeCreate(data, options);
             const entity = await this.executeCreate(data, options);
+            if (this.isAuditEnabled(options)) {
+                await this.recordAudit('CREATE', entity.id, diffObjects({}, this.toAuditRecord(entity)), traceId, options);
+            }
             await this.afterCreate(entity, options);
-            return entity;
+            return this.markAsLoaded(entity);
         } catch (error) {
-            await this.onError('create', error, { data, options, traceId });
-            throw error;
+            const failure = this.translateError(error);
+            await this.onError('create', failure, { data, options, traceId });
+            throw failure;
+        }
+    }
+
+    /**
+     * Insert an entity or update the one matching `conflictFields` (default: id)
+     * @description The write is a native `INSERT ... ON CONFLICT` where the repository supports it.
+     * Create hooks run when no match exists beforehand and update hooks otherwise; after hooks
+     * and audit follow the actual outcome. A soft-deleted match is restored.
+     */
+    async upsert(data: TCreateInput, options?: UpsertOptions): Promise<TEntity> {
+        const traceId = options?.context?.traceId || generateTraceId();
+        const conflictFields = options?.conflictFields?.length ? options.conflictFields : ['id'];
+
+        try {
+            data = this.stampTenant(data, options?.context);
+            const existing = await this.findConflicting(data, conflictFields);
+            const tenantId = this.resolveTenant(options?.context);
+            if (existing && tenantId && existing.tenantId !== tenantId) {
+                throw this.createTenantError(options?.context, `Access to ${this.getEntityType()} '${existing.id}' is forbidden`, existing.id);
+            }
+
+            if (existing) {
+                await this.beforeUpdate(existing.id, data as unknown as TUpdateInput, options);
+            } else {
+                await this.beforeCreate(data, options);
+            }
+
+            const entity = await this.executeUpsert(data, conflictFields, options);
+            const created = this.isUpsertCreated(entity, existing);
+
+            if (this.isAuditEnabled(options)) {
+                const changes = diffObjects(
+                    this.toAuditRecord(created ? null : existing ?? null),
+                    this.toAuditRecord(entity),
+                    created ? [] : AUDIT_IGNORED_FIELDS
+                );
+                await this.recordAudit(created ? 'CREATE' : 'UPDATE', entity.id, changes, traceId, options);
+            }
+            if (created) {
+                await this.afterCreate(entity, options);
+            } else {
+                await this.afterUpdate(entity, options);
+            }
+            return this.markAsLoaded(entity);
+        } catch (error) {
+            const failure = this.translateError(error);
+            await this.onError('upsert', failure, { data, conflictFields, options, traceId });
+            throw failure;
+        }
+    }
+
+    /**
+     * Return the entity matching the criteria, creating it from `data` when there is none
+     * @description `data` must satisfy the criteria. When a concurrent create wins the race, its
+     * ConflictError is swallowed and the winner returned, so back the criteria fields with a unique index.
+     */
+    async findOrCreate(criteria: FilterCriteria, data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
+        const findFirst = async () => (await this.findMany(criteria, { ...options, limit: 1 } as ListOptions))[0];
+
+        const existing = await findFirst();
+        if (existing) {
+            return existing;
+        }
+
+        try {
+            return await this.create(data, options);
+        } catch (error) {
+            if (!(error instanceof ConflictError)) {
+                throw error;
+            }
+            const winner = await findFirst();
+            if (!winner) {
+                throw error;
+            }
+            return winner;
         }
     }
 
@@ -68,15 +267,19 @@ export abstract class BaseRepository<
      * Find entity by ID
      */
     async findById(id: EntityId, options?: FindOptions): Promise<TEntity | null> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
         try {
+            const tenantId = this.resolveTenant(options?.context);
             const entity = await this.executeFindById(id, options);
+            if (entity && tenantId && entity.tenantId !== tenantId) {
+                return null;
+            }
             if (entity && this.config.softDelete && !options?.withDeleted) {
                 if (this.isDeleted(entity)) {
                     return null;
                 }
             }
-            return entity;
+            return this.markAsLoaded(entity);
         } catch (error) {
             await this.onError('findById', error, { id, options, traceId });
             throw error;
@@ -87,10 +290,11 @@ export abstract class BaseRepository<
      * Find multiple entities
      */
     async findMany(criteria: FilterCriteria, options?: FindOptions): Promise<TEntity[]> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
         try {
-            const enhancedCriteria = this.applySoftDeleteFilter(criteria, options);
-            return await this.executeFindMany(enhancedCriteria, options);
+            const enhancedCriteria = this.applyScope(criteria, options);
+            const entities = await this.executeFindMany(enhancedCriteria, options);
+            return entities.map(entity => this.markAsLoaded(entity));
         } catch (error) {
             await this.onError('findMany', error, { criteria, options, traceId });
             throw error;
@@ -101,26 +305,68 @@ export abstract class BaseRepository<
      * Update an entity
      */
     async update(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
         try {
+            await this.assertTenantAccess(id, options?.context, data);
+            const tracked = data instanceof Entity && data.isTracked() ? data : null;
+            if (tracked) {
+                // Skip no-op writes and send only the changed fields of a loaded entity
+                if (!tracked.isDirty()) {
+                    return tracked as unknown as TEntity;
+                }
+                options = { ...options, expectedVersion: options?.expectedVersion ?? tracked.getOriginalValue<number>('version') };
+                data = this.pickChanges(tracked);
+            }
             await this.beforeUpdate(id, data, options);
-            const entity = await this.executeUpdate(id, data, options);
+            const expectedVersion = this.resolveExpectedVersion(data, options);
+            const before = this.isAuditEnabled(options)
+                ? await this.executeFindById(id, { withDeleted: true })
+                : null;
+            const entity = await this.executeUpdate(id, data, { ...options, expectedVersion });
+            if (!entity) {
+                throw await this.createUpdateConflictError(id, expectedVersion);
+            }
+            if (this.isAuditEnabled(options)) {
+                const changes = diffObjects(this.toAuditRecord(before), this.toAuditRecord(entity), AUDIT_IGNORED_FIELDS);
+                await this.recordAudit('UPDATE', id, changes, traceId, options);
+            }
             await this.afterUpdate(entity, options);
-            return entity;
+            if (tracked) {
+                tracked.version = entity.version;
+                tracked.updatedAt = entity.updatedAt;
+                tracked.commitChanges();
+            }
+            return this.markAsLoaded(entity);
         } catch (error) {
-            await this.onError('update', error, { id, data, options, traceId });
-            throw error;
+            const failure = this.translateError(error);
+            await this.onError('update', failure, { id, data, options, traceId });
+            throw failure;
         }
     }
 
     /**
-     * Delete an entity
+     * Delete an entity (soft delete when `options.soft`, or else `config.softDelete`, is set)
+     * @description With `cascade: true` the dependants declared in `config.relations` are deleted
+     * too, recursively and in the same transaction.
+     * @throws BusinessRuleError when a `restrict` relation still has dependants
      */
     async delete(id: EntityId, options?: DeleteOptions): Promise<void> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
         try {
+            await this.assertTenantAccess(id, options?.context);
             await this.beforeDelete(id, options);
-            await this.executeDelete(id, options);
+            if (options?.cascade && this.hasRelations()) {
+                const existing = await this.executeFindById(id, { withDeleted: true });
+                if (!existing || (this.isSoftDelete(options) && this.isDeleted(existing))) {
+                    throw new NotFoundError(this.getEntityType(), id);
+                }
+                await this.deleteWithDependants([id], options, traceId);
+            } else {
+                await this.executeDelete(id, options);
+            }
+            if (this.isAuditEnabled(options)) {
+                await this.recordAudit('DELETE', id, undefined, traceId, options);
+            }
             await this.afterDelete(id, options);
         } catch (error) {
             await this.onError('delete', error, { id, options, traceId });
@@ -128,25 +374,123 @@ export abstract class BaseRepository<
         }
     }
 
+    /**
+     * Restore a soft-deleted entity
+     * @description Restoring an entity that is not deleted returns it unchanged. With optimistic
+     * locking, the write expects the version read here unless `options.expectedVersion` is given.
+     * @throws NotFoundError when the entity does not exist
+     */
+    async restore(id: EntityId, options?: UpdateOptions): Promise<TEntity> {
+        const traceId = options?.context?.traceId || generateTraceId();
+        try {
+            await this.assertTenantAccess(id, options?.context);
+            const existing = await this.executeFindById(id, { withDeleted: true });
+            if (!existing) {
+                throw new NotFoundError(this.getEntityType(), id);
+            }
+            if (!this.isDeleted(existing)) {
+                return this.markAsLoaded(existing);
+            }
+
+            await this.beforeRestore(existing, options);
+            const expectedVersion = this.isOptimisticLocking(options)
+                ? options?.expectedVersion ?? existing.version
+                : undefined;
+            const entity = await this.executeUpdate(id, { deletedAt: null } as unknown as TUpdateInput, { ...options, expectedVersion });
+            if (!entity) {
+                throw await this.createUpdateConflictError(id, expectedVersion);
+            }
+            if (this.isAuditEnabled(options)) {
+                const changes = diffObjects(this.toAuditRecord(existing), this.toAuditRecord(entity), AUDIT_IGNORED_FIELDS);
+                await this.recordAudit('UPDATE', id, changes, traceId, options);
+            }
+            await this.afterRestore(entity, options);
+            return this.markAsLoaded(entity);
+        } catch (error) {
+            await this.onError('restore', error, { id, options, traceId });
+            throw error;
+        }
+    }
+
+    /**
+     * Permanently delete an entity, including a soft-deleted one (runs the delete hooks)
+     */
+    async purge(id: EntityId, options?: DeleteOptions): Promise<void> {
+        await this.delete(id, { ...options, soft: false });
+    }
+
+    /**
+     * Permanently delete entities soft deleted before the given date, in batches
+     * @description Used by retention jobs; tenant scope applies. Matches are loaded one batch at a
+     * time, in id order, so rows that fail to delete are skipped rather than fetched again.
+     */
+    async purgeDeleted(deletedBefore: Date, options?: BulkOptions): Promise<BulkResult<TEntity>> {
+        const traceId = options?.context?.traceId || generateTraceId();
+        const pageSize = this.resolveBatchSize(options);
+        const result = this.createBulkResult(0);
+
+        try {
+            let after: EntityId | undefined;
+            for (;;) {
+                const conditions: FilterCondition[] = [{ field: 'deletedAt', operator: 'lt', value: deletedBefore }];
+                if (after !== undefined) {
+                    conditions.push({ field: 'id', operator: 'gt', value: after });
+                }
+                const page = await this.executeFindMany(
+                    this.applyTenantFilter({ conditions }, options),
+                    { limit: pageSize, sort: [{ field: 'id', direction: 'ASC' }] } as ListOptions
+                );
+
+                const purged = await this.deleteEntities(page, { ...options, soft: false }, traceId);
+                const offset = result.total;
+                result.total += purged.total;
+                result.succeeded.push(...purged.succeeded.map(item => ({ ...item, index: item.index + offset })));
+                result.failed.push(...purged.failed.map(item => ({ ...item, index: item.index + offset })));
+
+                if (page.length < pageSize) {
+                    return this.finishBulkResult(result);
+                }
+                after = page[page.length - 1].id;
+            }
+        } catch (error) {
+            await this.onError('purgeDeleted', error, { deletedBefore, options, traceId });
+            throw error;
+        }
+    }
+
     /**
      * Count entities
      */
-    async count(criteria?: FilterCriteria): Promise<number> {
-        const traceId = generateTraceId();
+    async count(criteria?: FilterCriteria, options?: FindOptions): Promise<number> {
+        const traceId = options?.context?.traceId || generateTraceId();
         try {
-            const enhancedCriteria = this.applySoftDeleteFilter(criteria);
+            const enhancedCriteria = this.applyScope(criteria, options);
             return await this.executeCount(enhancedCriteria);
         } catch (error) {
-            await this.onError('count', error, { criteria, traceId });
+            await this.onError('count', error, { criteria, options, traceId });
             throw error;
         }
     }
 
+    /**
+     * Find entities satisfying a specification
+     */
+    async findBySpec(specification: ISpecification<TEntity>, options?: FindOptions): Promise<TEntity[]> {
+        return this.findMany(specification.toCriteria(), options);
+    }
+
+    /**
+     * Count entities satisfying a specification
+     */
+    async countBySpec(specification: ISpecification<TEntity>, options?: FindOptions): Promise<number> {
+        return this.count(specification.toCriteria(), options);
+    }
+
     /**
      * Check if entity exists
      */
-    async exists(id: EntityId): Promise<boolean> {
-        const entity = await this.findById(id);
+    async exists(id: EntityId, options?: FindOptions): Promise<boolean> {
+        const entity = await this.findById(id, options);
         return entity !== null;
     }
 
@@ -158,17 +502,18 @@ export abstract class BaseRepository<
         const limit = options.limit || 10;
 
         const criteria = options.filter || {};
-        const enhancedCriteria = this.applySoftDeleteFilter(criteria, options);
+        const enhancedCriteria = this.applyScope(criteria, options);
+        const pageOptions: ListOptions = { ...options, page, limit };
 
         const [entities, total] = await Promise.all([
-            this.executeFindMany(enhancedCriteria, options),
+            this.executeFindMany(enhancedCriteria, pageOptions),
             this.executeCount(enhancedCriteria)
         ]);
 
         const totalPages = Math.ceil(total / limit);
 
         return {
-            data: entities,
+            data: entities.map(entity => this.markAsLoaded(entity)),
             pagination: {
                 page,
                 limit,
@@ -182,36 +527,705 @@ export abstract class BaseRepository<
     /**
      * Search entities
      */
-    async search(query: SearchQuery): Promise<SearchResult<TEntity>> {
-        const traceId = generateTraceId();
+    async search(query: SearchQuery, options?: FindOptions): Promise<SearchResult<TEntity>> {
+        const traceId = options?.context?.traceId || generateTraceId();
+        try {
+            const result = await this.executeSearch(query, this.applyScope({}, options));
+            return { ...result, data: result.data.map(entity => this.markAsLoaded(entity)) };
+        } catch (error) {
+            await this.onError('search', error, { query, options, traceId });
+            throw error;
+        }
+    }
+
+    /**
+     * Create many entities in batches
+     * @description Hooks run once per batch. A batch is written atomically when the repository
+     * supports it; when it does not, or the batch fails, its items are written one at a time so
+     * failures are reported per item.
+     */
+    async createMany(items: TCreateInput[], options?: BulkOptions): Promise<BulkResult<TEntity>> {
+        const traceId = options?.context?.traceId || generateTraceId();
+        const result = this.createBulkResult(items.length);
+
+        try {
+            const pending = this.prepareBulkItems(items, result, item => this.stampTenant(item, options?.context));
+
+            for (const batch of chunk(pending, this.resolveBatchSize(options))) {
+                const inputs = batch.map(item => item.data);
+                const writes = await this.runBatch(
+                    batch,
+                    () => this.beforeCreateMany(inputs, options),
+                    () => this.executeCreateMany(inputs, options),
+                    item => this.executeCreate(item.data, options)
+                );
+
+                const created = await this.collectEntities(writes, result, item => item.index, () => undefined);
+                for (const entity of created) {
+                    if (this.isAuditEnabled(options)) {
+                        await this.recordAudit('CREATE', entity.id, diffObjects({}, this.toAuditRecord(entity)), traceId, options);
+                    }
+                }
+                if (created.length > 0) {
+                    await this.afterCreateMany(created, options);
+                }
+            }
+
+            return this.finishBulkResult(result);
+        } catch (error) {
+            await this.onError('createMany', error, { count: items.length, options, traceId });
+            throw error;
+        }
+    }
+
+    /**
+     * Apply the same patch to every entity matching the criteria, in batches
+     * @description Matches are resolved first (tenant and soft delete scope apply), so results
+     * report each matched entity. The patch is applied without optimistic locking.
+     */
+    async updateMany(criteria: FilterCriteria, patch: TUpdateInput, options?: BulkOptions): Promise<BulkResult<TEntity>> {
+        const traceId = options?.context?.traceId || generateTraceId();
+
+        try {
+            const requested = (patch as Partial<BaseEntity>).tenantId;
+            const tenantId = this.resolveTenant(options?.context);
+            if (tenantId && requested && requested !== tenantId) {
+                throw this.createTenantError(options?.context, 'Cannot move entities to another tenant');
+            }
+
+            const matches = await this.executeFindMany(this.applyScope(criteria, options));
+            const result = this.createBulkResult(matches.length);
+            const indexed = matches.map((entity, index) => ({ index, id: entity.id, before: entity }));
+
+            for (const batch of chunk(indexed, this.resolveBatchSize(options))) {
+                const ids = batch.map(item => item.id);
+                const writes = await this.runBatch(
+                    batch,
+                    () => this.beforeUpdateMany(ids, patch, options),
+                    () => this.executeUpdateMany(ids, patch, options),
+                    item => this.executeUpdate(item.id, patch, { ...options, expectedVersion: undefined })
+                );
+
+                const updated = await this.collectEntities(writes, result, item => item.index, item => item.id);
+                for (const entity of updated) {
+                    if (this.isAuditEnabled(options)) {
+                        const before = batch.find(item => item.id === entity.id)?.before ?? null;
+                        const changes = diffObjects(this.toAuditRecord(before), this.toAuditRecord(entity), AUDIT_IGNORED_FIELDS);
+                        await this.recordAudit('UPDATE', entity.id, changes, traceId, options);
+                    }
+                }
+                if (updated.length > 0) {
+                    await this.afterUpdateMany(updated, options);
+                }
+            }
+
+            return this.finishBulkResult(result);
+        } catch (error) {
+            await this.onError('updateMany', error, { criteria, patch, options, traceId });
+            throw error;
+        }
+    }
+
+    /**
+     * Delete every entity matching the criteria, in batches
+     */
+    async deleteMany(criteria: FilterCriteria, options?: BulkDeleteOptions): Promise<BulkResult<TEntity>> {
+        const traceId = options?.context?.traceId || generateTraceId();
+
+        try {
+            const matches = await this.executeFindMany(this.applyScope(criteria, options));
+            return await this.deleteEntities(matches, options, traceId);
+        } catch (error) {
+            await this.onError('deleteMany', error, { criteria, options, traceId });
+            throw error;
+        }
+    }
+
+    /**
+     * Insert or update many entities matched on `conflictFields` (default: id), in batches
+     */
+    async upsertMany(items: TCreateInput[], options?: BulkUpsertOptions): Promise<BulkResult<TEntity>> {
+        const traceId = options?.context?.traceId || generateTraceId();
+        const conflictFields = options?.conflictFields?.length ? options.conflictFields : ['id'];
+        const result = this.createBulkResult(items.length);
+
         try {
-            return await this.executeSearch(query);
+            const pending = this.prepareBulkItems(items, result, item => this.stampTenant(item, options?.context));
+
+            for (const batch of chunk(pending, this.resolveBatchSize(options))) {
+                const inputs = batch.map(item => item.data);
+                const existing = this.isAuditEnabled(options) ? await this.findConflictingMany(inputs, conflictFields) : [];
+                const writes = await this.runBatch(
+                    batch,
+                    () => this.beforeUpsertMany(inputs, options),
+                    () => this.executeUpsertMany(inputs, conflictFields, options),
+                    item => this.executeUpsert(item.data, conflictFields, options)
+                );
+
+                // A batch upsert writes nothing only for a row guarded by another tenant
+                const upserted = await this.collectEntities(
+                    writes,
+                    result,
+                    item => item.index,
+                    () => undefined,
+                    () => this.createTenantError(options?.context, `Cannot upsert ${this.getEntityType()} owned by another tenant`)
+                );
+                for (const entity of upserted) {
+                    if (this.isAuditEnabled(options)) {
+                        const before = existing.find(candidate => candidate.id === entity.id) ?? null;
+                        const created = this.isUpsertCreated(entity, before);
+                        const changes = diffObjects(
+                            this.toAuditRecord(created ? null : before),
+                            this.toAuditRecord(entity),
+                            created ? [] : AUDIT_IGNORED_FIELDS
+                        );
+                        await this.recordAudit(created ? 'CREATE' : 'UPDATE', entity.id, changes, traceId, options);
+                    }
+                }
+                if (upserted.length > 0) {
+                    await this.afterUpsertMany(upserted, options);
+                }
+            }
+
+            return this.finishBulkResult(result);
         } catch (error) {
-            await this.onError('search', error, { query, traceId });
+            await this.onError('upsertMany', error, { count: items.length, conflictFields, options, traceId });
             throw error;
         }
     }
 
+    /**
+     * Get the audit history of an entity, oldest first
+     */
+    async getHistory(
+        id: EntityId,
+        query: Omit<AuditQuery, 'entityType' | 'entityId'> = {},
+        options?: FindOptions
+    ): Promise<AuditTrail[]> {
+        if (!this.config.auditStore) {
+            return [];
+        }
+
+        await this.assertTenantAccess(id, options?.context);
+        return this.config.auditStore.query({
+            ...query,
+            entityType: this.getEntityType(),
+            entityId: id,
+        });
+    }
+
+    /**
+     * Persist an aggregate root, then hand its uncommitted events to the configured event bus
+     * @description The aggregate is created when it does not exist yet, otherwise updated with the
+     * version it was loaded at as the expected version. Events are only dispatched after the write
+     * succeeds and are marked as committed once published.
+     */
+    async save(aggregate: TEntity & IAggregateRoot<TEntity>, options?: UpdateOptions): Promise<TEntity> {
+        if (aggregate instanceof AggregateRoot) {
+            aggregate.assertInvariants();
+        }
+
+        const events = aggregate.getUncommittedEvents() as DomainEvent[];
+        const existing = await this.findById(aggregate.id, { context: options?.context, withDeleted: true });
+        let saved: TEntity;
+
+        if (existing) {
+            const expectedVersion = options?.expectedVersion
+                ?? (aggregate instanceof AggregateRoot ? aggregate.getPersistedVersion() : aggregate.version);
+            saved = await this.update(aggregate.id, aggregate as unknown as TUpdateInput, { ...options, expectedVersion });
+        } else {
+            saved = await this.create(aggregate as unknown as TCreateInput, options);
+        }
+
+        if (aggregate instanceof AggregateRoot) {
+            aggregate.markAsPersisted(saved.version);
+        }
+
+        await this.dispatchEvents(events, options);
+        aggregate.markEventsAsCommitted();
+        return saved;
+    }
+
     // Protected helper methods
+
+    protected resolveBatchSize(options?: BulkOptions): number {
+        return Math.max(1, options?.batchSize || DEFAULT_BULK_BATCH_SIZE);
+    }
+
+    /**
+     * Run the before hook and batch write, falling back to one write per item when the batch
+     * primitive is unsupported or fails
+     * @description A failing before hook fails every item of the batch.
+     */
+    private async runBatch<TItem, TOutput>(
+        batch: TItem[],
+        before: () => Promise<void>,
+        writeAll: () => Promise<Array<TOutput | null> | null>,
+        writeOne: (item: TItem) => Promise<TOutput | null>
+    ): Promise<BatchWrite<TItem, TOutput>[]> {
+        try {
+            await before();
+        } catch (error) {
+            return batch.map(item => ({ item, error: toError(error) }));
+        }
+
+        try {
+            const outputs = await writeAll();
+            if (outputs) {
+                return batch.map((item, position) => ({ item, output: outputs[position] ?? null }));
+            }
+        } catch {
+            // Retry item by item to report which items failed
+        }
+
+        const writes: BatchWrite<TItem, TOutput>[] = [];
+        for (const item of batch) {
+            try {
+                writes.push({ item, output: await writeOne(item) });
+            } catch (error) {
+                writes.push({ item, error: toError(this.translateError(error)) });
+            }
+        }
+        return writes;
+    }
+
+    /**
+     * Delete the given entities in batches, reporting the outcome per entity
+     */
+    private async deleteEntities(matches: TEntity[], options: BulkDeleteOptions | undefined, traceId: TraceId): Promise<BulkResult<TEntity>> {
+        const result = this.createBulkResult(matches.length);
+        const indexed = matches.map((entity, index) => ({ index, id: entity.id }));
+
+        const cascade = Boolean(options?.cascade) && this.hasRelations();
+
+        for (const batch of chunk(indexed, this.resolveBatchSize(options))) {
+            const ids = batch.map(item => item.id);
+            const writes = await this.runBatch(
+                batch,
+                () => this.beforeDeleteMany(ids, options),
+                async () => {
+                    if (!cascade) {
+                        return this.executeDeleteMany(ids, options);
+                    }
+                    await this.deleteWithDependants(ids, options, traceId);
+                    return ids;
+                },
+                async item => {
+                    if (cascade) {
+                        await this.deleteWithDependants([item.id], options, traceId);
+                    } else {
+                        await this.executeDelete(item.id, options);
+                    }
+                    return item.id;
+                }
+            );
+
+            const deleted: EntityId[] = [];
+            for (const write of writes) {
+                if (write.output) {
+                    result.succeeded.push({ index: write.item.index, id: write.item.id });
+                    deleted.push(write.item.id);
+                } else {
+                    result.failed.push({
+                        index: write.item.index,
+                        id: write.item.id,
+                        error: write.error || new NotFoundError(this.getEntityType(), write.item.id),
+                    });
+                }
+            }
+
+            for (const id of deleted) {
+                if (this.isAuditEnabled(options)) {
+                    await this.recordAudit('DELETE', id, undefined, traceId, options);
+                }
+            }
+            if (deleted.length > 0) {
+                await this.afterDeleteMany(deleted, options);
+            }
+        }
+
+        return this.finishBulkResult(result);
+    }
+
+    private hasRelations(): boolean {
+        return (this.config.relations?.getRelations(this).length ?? 0) > 0;
+    }
+
+    /**
+     * Delete entities together with their dependants
+     * @description Dependants are looked up, and restrictions checked, before anything is written;
+     * executeCascadeDelete then applies every step, re-checking restrictions where it can. When it
+     * fails, the cascade is planned again so a dependant added meanwhile is reported as a
+     * restriction. Dependant repositories run their delete-many hooks and record their own audit entries.
+     */
+    private async deleteWithDependants(ids: EntityId[], options: DeleteOptions | undefined, traceId: TraceId): Promise<void> {
+        const root: CascadeDeleteStep = { repository: this, ids, soft: this.isSoftDelete(options) };
+        const plan = (restrictions: CascadeDependency[]) => this.planCascade(
+            root,
+            options,
+            new Map<BaseRepository<BaseEntity, unknown, unknown>, Set<EntityId>>([[this, new Set(ids)]]),
+            restrictions
+        );
+
+        const restrictions: CascadeDependency[] = [];
+        const steps = await plan(restrictions);
+        const planned = steps.filter(step => step.ids.length > 0);
+
+        for (const step of planned) {
+            await step.repository.beforeDeleteMany(step.ids, { ...options, soft: step.soft });
+        }
+
+        try {
+            await this.executeCascadeDelete([...steps, root], restrictions);
+        } catch (error) {
+            await plan([]);
+            throw error;
+        }
+
+        for (const step of planned) {
+            if (step.repository.isAuditEnabled(options)) {
+                for (const id of step.ids) {
+                    await step.repository.recordAudit('DELETE', id, undefined, traceId, options);
+                }
+            }
+            await step.repository.afterDeleteMany(step.ids, { ...options, soft: step.soft });
+        }
+    }
+
+    /**
+     * Collect the dependants of a step, deepest first, and the `restrict` relations to guard
+     * @description Every relation gets a step, even one without dependants yet, so executeCascadeDelete
+     * can delete rows added since. A relation back to a repository already on the path is only
+     * followed while it has dependants.
+     * @throws BusinessRuleError when a `restrict` relation has dependants
+     */
+    private async planCascade(
+        parent: CascadeDeleteStep,
+        options: DeleteOptions | undefined,
+        visited: Map<BaseRepository<BaseEntity, unknown, unknown>, Set<EntityId>>,
+        restrictions: CascadeDependency[]
+    ): Promise<CascadeDeleteStep[]> {
+        const steps: CascadeDeleteStep[] = [];
+        const repository = parent.repository;
+
+        for (const relation of this.config.relations?.getRelations(repository) || []) {
+            const target = relation.target;
+            const soft = relation.kind === 'many-to-many' ? parent.soft && target.isSoftDelete() : parent.soft;
+            const dependency: CascadeDependency = { relation, parent, scope: target.dependantScope(soft, options) };
+            const seen = visited.get(target) ?? new Set<EntityId>();
+            visited.set(target, seen);
+
+            const dependants = (await target.findDependantIds(relation.foreignKey, parent.ids, soft, options))
+                .filter(id => !seen.has(id));
+            if (relation.onDelete === 'restrict') {
+                if (dependants.length > 0) {
+                    throw new BusinessRuleError(
+                        `Cannot delete ${repository.getEntityType()} while it has ${relation.name}`,
+                        'DELETE_RESTRICTED',
+                        { entityType: repository.getEntityType(), relation: relation.name, dependants: dependants.length }
+                    );
+                }
+                restrictions.push(dependency);
+                continue;
+            }
+
+            const step: CascadeDeleteStep = { repository: target, ids: dependants, soft, dependency };
+            if (dependants.length > 0 || !this.isOnCascadePath(parent, target)) {
+                dependants.forEach(id => seen.add(id));
+                steps.push(...await this.planCascade(step, options, visited, restrictions));
+            }
+            steps.push(step);
+        }
+
+        return steps;
+    }
+
+    private isOnCascadePath(step: CascadeDeleteStep, repository: BaseRepository<BaseEntity, unknown, unknown>): boolean {
+        for (let current: CascadeDeleteStep | undefined = step; current; current = current.dependency?.parent) {
+            if (current.repository === repository) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Ids of rows referencing the given parents; rows already soft deleted are skipped for soft deletes
+     */
+    protected async findDependantIds(
+        foreignKey: string,
+        parentIds: EntityId[],
+        soft: boolean,
+        options?: DeleteOptions
+    ): Promise<EntityId[]> {
+        const ids: EntityId[] = [];
+        const scope = this.dependantScope(soft, options);
+
+        for (const group of chunk(parentIds, LOOKUP_SIZE)) {
+            const criteria = this.addCondition(scope, { field: foreignKey, operator: 'in', values: group });
+            const dependants = await this.executeFindMany(criteria);
+            ids.push(...dependants.map(entity => entity.id));
+        }
+
+        return ids;
+    }
+
+    /**
+     * Implicit filters of a dependant lookup: the tenant, and live rows only for soft deletes
+     */
+    protected dependantScope(soft: boolean, options?: DeleteOptions): FilterCriteria {
+        return soft ? this.applyScope({}, options) : this.applyTenantFilter({}, options);
+    }
+
+    /**
+     * Record batch writes in the result and return the written entities
+     */
+    private async collectEntities<TItem>(
+        writes: BatchWrite<TItem, TEntity>[],
+        result: BulkResult<TEntity>,
+        indexOf: (item: TItem) => number,
+        idOf: (item: TItem) => EntityId | undefined,
+        missing: (id: EntityId | undefined) => Error = id => new NotFoundError(this.getEntityType(), id ?? 'unknown')
+    ): Promise<TEntity[]> {
+        const entities: TEntity[] = [];
+
+        for (const write of writes) {
+            const index = indexOf(write.item);
+            const id = idOf(write.item);
+            if (write.output) {
+                const entity = this.markAsLoaded(write.output);
+                result.succeeded.push({ index, id: entity.id, entity });
+                entities.push(entity);
+            } else {
+                result.failed.push({
+                    index,
+                    id,
+                    error: write.error || missing(id),
+                });
+            }
+        }
+
+        return entities;
+    }
+
+    /**
+     * Apply a per-item preparation step, recording items it rejects as failures
+     */
+    private prepareBulkItems(
+        items: TCreateInput[],
+        result: BulkResult<TEntity>,
+        prepare: (item: TCreateInput) => TCreateInput
+    ): Array<{ index: number; data: TCreateInput }> {
+        const pending: Array<{ index: number; data: TCreateInput }> = [];
+        items.forEach((item, index) => {
+            try {
+                pending.push({ index, data: prepare(item) });
+            } catch (error) {
+                result.failed.push({ index, error: toError(error) });
+            }
+        });
+        return pending;
+    }
+
+    private createBulkResult(total: number): BulkResult<TEntity> {
+        return { total, succeeded: [], failed: [] };
+    }
+
+    /**
+     * Whether an upsert inserted `entity` rather than updating the row matched beforehand
+     * @description Without a prior match, a version above 1 means a concurrent insert won and was updated.
+     */
+    private isUpsertCreated(entity: TEntity, existing?: TEntity | null): boolean {
+        return existing ? existing.id !== entity.id : (entity.version ?? 1) <= 1;
+    }
+
+    private finishBulkResult(result: BulkResult<TEntity>): BulkResult<TEntity> {
+        result.succeeded.sort((left, right) => left.index - right.index);
+        result.failed.sort((left, right) => left.index - right.index);
+        return result;
+    }
+
+    /**
+     * Find the stored entity sharing the conflict field values of `data`, across tenants and soft deletes
+     */
+    protected async findConflicting(data: TCreateInput, conflictFields: string[]): Promise<TEntity | null> {
+        const values = data as unknown as Record<string, unknown>;
+        const [existing] = await this.executeFindMany({
+            conditions: conflictFields.map(field => ({ field, operator: 'eq' as const, value: values[field] ?? null })),
+        });
+        return existing ?? null;
+    }
+
+    /**
+     * Stored entities sharing the conflict field values of any of the items, across tenants and soft deletes
+     */
+    private async findConflictingMany(items: TCreateInput[], conflictFields: string[]): Promise<TEntity[]> {
+        const matches: TEntity[] = [];
+
+        for (const group of chunk(items, Math.max(1, Math.floor(LOOKUP_SIZE / conflictFields.length)))) {
+            matches.push(...await this.executeFindMany({
+                logic: 'OR',
+                groups: group.map(item => {
+                    const values = item as unknown as Record<string, unknown>;
+                    return { conditions: conflictFields.map(field => ({ field, operator: 'eq' as const, value: values[field] ?? null })) };
+                }),
+            }));
+        }
+
+        return matches;
+    }
+
+    /**
+     * Map store-specific errors (e.g. unique constraint violations) to domain errors
+     */
+    protected translateError(error: unknown): unknown {
+        return error;
+    }
+
+    /**
+     * Snapshot a loaded entity so later changes can be diffed
+     */
+    protected markAsLoaded<T extends TEntity | null>(entity: T): T {
+        if (entity instanceof Entity) {
+            entity.commitChanges();
+        }
+        return entity;
+    }
+
+    /**
+     * Build a partial update input from the changed fields of a tracked entity
+     */
+    protected pickChanges(entity: Entity): TUpdateInput {
+        const state = entity as unknown as Record<string, unknown>;
+        return Object.fromEntries(entity.getChangedFields().map(field => [field, state[field] ?? null])) as TUpdateInput;
+    }
+
+    /**
+     * Publish aggregate events to `config.eventBus` unless `skipEvents` is set
+     */
+    protected async dispatchEvents(events: DomainEvent[], options?: CreateOptions): Promise<void> {
+        if (events.length === 0 || !this.config.eventBus || options?.skipEvents) {
+            return;
+        }
+
+        await this.config.eventBus.publish(events);
+    }
+
     protected applySoftDeleteFilter(criteria?: FilterCriteria, options?: FindOptions): FilterCriteria {
         if (!this.config.softDelete || options?.withDeleted) {
             return criteria || {};
         }
 
-        const deleteFilter = {
+        return this.addCondition(criteria, {
             field: 'deletedAt',
-            operator: 'isNull' as const,
-        };
+            operator: 'isNull',
+        });
+    }
+
+    /**
+     * Restrict criteria to the caller's tenant when tenant isolation is enabled
+     */
+    protected applyTenantFilter(criteria?: FilterCriteria, options?: FindOptions): FilterCriteria {
+        const tenantId = this.resolveTenant(options?.context);
+        if (!tenantId) {
+            return criteria || {};
+        }
+
+        return this.addCondition(criteria, {
+            field: 'tenantId',
+            operator: 'eq',
+            value: tenantId,
+        });
+    }
 
+    /**
+     * Apply every implicit read filter (tenant and soft delete)
+     */
+    protected applyScope(criteria?: FilterCriteria, options?: FindOptions): FilterCriteria {
+        return this.applySoftDeleteFilter(this.applyTenantFilter(criteria, options), options);
+    }
+
+    /**
+     * Resolve the tenant an operation is scoped to (undefined when isolation is off)
+     */
+    protected resolveTenant(context?: OperationContext): TenantId | undefined {
+        if (!this.config.tenantIsolation) {
+            return undefined;
+        }
+        if (!context?.tenantId) {
+            throw this.createTenantError(context, 'Tenant context is required for this operation');
+        }
+        return context.tenantId;
+    }
+
+    /**
+     * Stamp new entities with the caller's tenant
+     */
+    protected stampTenant(data: TCreateInput, context?: OperationContext): TCreateInput {
+        const tenantId = this.resolveTenant(context);
+        if (!tenantId) {
+            return data;
+        }
+
+        const requested = (data as Partial<BaseEntity>).tenantId;
+        if (requested && requested !== tenantId) {
+            throw this.createTenantError(context, 'Cannot create entities for another tenant');
+        }
+
+        return { ...data, tenantId };
+    }
+
+    /**
+     * Reject writes to entities owned by another tenant
+     */
+    protected async assertTenantAccess(id: EntityId, context?: OperationContext, data?: TUpdateInput): Promise<void> {
+        const tenantId = this.resolveTenant(context);
+        if (!tenantId) {
+            return;
+        }
+
+        const requested = (data as Partial<BaseEntity> | undefined)?.tenantId;
+        if (requested && requested !== tenantId) {
+            throw this.createTenantError(context, 'Cannot move entities to another tenant', id);
+        }
+
+        const existing = await this.executeFindById(id, { withDeleted: true });
+        if (existing && existing.tenantId !== tenantId) {
+            throw this.createTenantError(context, `Access to ${this.getEntityType()} '${id}' is forbidden`, id);
+        }
+    }
+
+    protected createTenantError(context: OperationContext | undefined, message: string, entityId?: EntityId): ForbiddenError {
+        return new ForbiddenError(message, {
+            traceId: context?.traceId || generateTraceId(),
+            entityType: this.getEntityType(),
+            entityId,
+            tenantId: context?.tenantId,
+            userId: context?.userId,
+        });
+    }
+
+    /**
+     * AND a condition onto criteria without letting OR logic or negation absorb it
+     */
+    private addCondition(criteria: FilterCriteria | undefined, condition: FilterCondition): FilterCriteria {
         if (!criteria) {
             return {
-                conditions: [deleteFilter],
+                conditions: [condition],
+            };
+        }
+
+        if (criteria.logic === 'OR' || criteria.not) {
+            return {
+                conditions: [condition],
+                groups: [criteria],
+                logic: 'AND',
             };
         }
 
         return {
             ...criteria,
-            conditions: [...(criteria.conditions || []), deleteFilter],
+            conditions: [...(criteria.conditions || []), condition],
         };
     }
 
@@ -219,6 +1233,112 @@ export abstract class BaseRepository<
         return Boolean(entity.deletedAt);
     }
 
+    /**
+     * Whether a delete is soft: `options.soft` when given, otherwise `config.softDelete`
+     */
+    protected isSoftDelete(options?: DeleteOptions): boolean {
+        return options?.soft ?? Boolean(this.config.softDelete);
+    }
+
+    /**
+     * Whether an update checks versions: `config.optimisticLocking` unless the options opt out
+     */
+    protected isOptimisticLocking(options?: UpdateOptions): boolean {
+        return Boolean(this.config.optimisticLocking) && options?.optimisticLocking !== false;
+    }
+
+    /**
+     * Resolve the version an update expects to replace (undefined when locking is off)
+     */
+    protected resolveExpectedVersion(data: TUpdateInput, options?: UpdateOptions): number | undefined {
+        if (!this.isOptimisticLocking(options)) {
+            return undefined;
+        }
+
+        const version = options?.expectedVersion ?? (data as Partial<BaseEntity>).version;
+        if (typeof version !== 'number') {
+            throw new ValidationError('Expected version is required for optimistic locking', [{
+                field: 'version',
+                message: 'Provide the version being updated in the input or UpdateOptions.expectedVersion',
+                code: 'VERSION_REQUIRED',
+            }]);
+        }
+
+        return version;
+    }
+
+    /**
+     * Explain why an update matched no rows
+     */
+    protected async createUpdateConflictError(id: EntityId, expectedVersion?: number): Promise<Error> {
+        const current = await this.executeFindById(id, { withDeleted: true });
+        if (!current || expectedVersion === undefined) {
+            return new NotFoundError(this.getEntityType(), id);
+        }
+
+        return new ConcurrencyError(
+            `${this.getEntityType()} '${id}' was modified by another operation`,
+            expectedVersion,
+            current.version
+        );
+    }
+
+    protected isAuditEnabled(options?: CreateOptions | DeleteOptions): boolean {
+        return Boolean(this.config.auditStore) && (options?.auditTrail ?? Boolean(this.config.auditTrail));
+    }
+
+    /**
+     * Write an audit entry through the configured audit store
+     * @description Entries are written after the change, outside any transaction, so auditing is
+     * best-effort: a failing store is reported through `onError` as operation 'audit' and never
+     * fails the write it records, which then has no entry.
+     */
+    protected async recordAudit(
+        operation: AuditTrail['operation'],
+        entityId: EntityId,
+        changes: AuditTrail['changes'],
+        traceId: TraceId,
+        options?: CreateOptions | DeleteOptions
+    ): Promise<void> {
+        const entry: AuditTrail = {
+            operation,
+            entityId,
+            entityType: this.getEntityType(),
+            timestamp: new Date(),
+            traceId,
+        };
+
+        if (changes && Object.keys(changes).length > 0) {
+            entry.changes = changes;
+        }
+        if (options?.context?.userId) {
+            entry.userId = options.context.userId;
+        }
+        if (options && 'metadata' in options && options.metadata) {
+            entry.metadata = { ...options.metadata };
+        }
+
+        try {
+            await this.config.auditStore?.record(entry);
+        } catch (error) {
+            await this.onError('audit', error, { entry });
+        }
+    }
+
+    /**
+     * Snapshot of an entity's own fields for audit diffs
+     */
+    protected toAuditRecord(entity: TEntity | null): Record<string, unknown> {
+        return entity ? { ...(entity as unknown as Record<string, unknown>) } : {};
+    }
+
+    /**
+     * Entity type name used in error messages and audit entries
+     */
+    protected getEntityType(): string {
+        return this.constructor.name.replace(/Repository$/, '') || 'Entity';
+    }
+
     // Hook methods (can be overridden by subclasses)
     protected async beforeCreate(data: TCreateInput, options?: CreateOptions): Promise<void> {
         // Override in subclasses
@@ -244,6 +1364,47 @@ export abstract class BaseRepository<
         // Override in subclasses
     }
 
+    protected async beforeRestore(entity: TEntity, options?: UpdateOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async afterRestore(entity: TEntity, options?: UpdateOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    // Bulk hooks run once per batch; a throwing before hook fails the whole batch
+    protected async beforeCreateMany(items: TCreateInput[], options?: BulkOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async afterCreateMany(entities: TEntity[], options?: BulkOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async beforeUpdateMany(ids: EntityId[], patch: TUpdateInput, options?: BulkOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async afterUpdateMany(entities: TEntity[], options?: BulkOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async beforeDeleteMany(ids: EntityId[], options?: BulkDeleteOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async afterDeleteMany(ids: EntityId[], options?: BulkDeleteOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async beforeUpsertMany(items: TCreateInput[], options?: BulkUpsertOptions): Promise<void> {
+        // Override in subclasses
+    }
+
+    protected async afterUpsertMany(entities: TEntity[], options?: BulkUpsertOptions): Promise<void> {
+        // Override in subclasses
+    }
+
     protected async onError(operation: string, error: unknown, context: Record<string, unknown>): Promise<void> {
         // Override in subclasses for custom error handling
     }
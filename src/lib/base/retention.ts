@@ -0,0 +1,73 @@
+import type { BaseEntity, OperationContext } from '../types.js';
+import type { BulkResult, IRepository } from './types.js';
+import { ValidationError } from '../errors/base.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Soft delete retention options
+ */
+export interface RetentionJobOptions {
+    /** Days a soft-deleted row is kept before it is purged */
+    retentionDays: number;
+    /** Rows purged per batch (default: 100) */
+    batchSize?: number;
+    /** Context of the purge; with tenant isolation only this tenant's rows are purged */
+    context?: OperationContext;
+}
+
+/**
+ * Outcome of one retention run
+ */
+export interface RetentionRunResult<TEntity extends BaseEntity = BaseEntity> extends BulkResult<TEntity> {
+    /** Rows soft deleted before this instant were purged */
+    cutoff: Date;
+}
+
+/**
+ * Permanently deletes rows soft deleted longer than the retention period
+ * @example
+ * const retention = createRetentionJob(users, { retentionDays: 30 });
+ * export default { scheduled: () => retention.run() };
+ */
+export class SoftDeleteRetentionJob<TEntity extends BaseEntity> {
+    private readonly repository: Pick<IRepository<TEntity>, 'purgeDeleted'>;
+    private readonly options: RetentionJobOptions;
+
+    constructor(repository: Pick<IRepository<TEntity>, 'purgeDeleted'>, options: RetentionJobOptions) {
+        if (!Number.isFinite(options.retentionDays) || options.retentionDays < 0) {
+            throw new ValidationError('Invalid retention period', [{
+                field: 'retentionDays',
+                message: 'Retention period must be a non-negative number of days',
+                code: 'INVALID_RETENTION_PERIOD',
+                value: options.retentionDays,
+            }]);
+        }
+
+        this.repository = repository;
+        this.options = options;
+    }
+
+    /**
+     * Purge rows whose retention period has elapsed at `now`
+     */
+    public async run(now: Date = new Date()): Promise<RetentionRunResult<TEntity>> {
+        const cutoff = new Date(now.getTime() - this.options.retentionDays * DAY_MS);
+        const result = await this.repository.purgeDeleted(cutoff, {
+            batchSize: this.options.batchSize,
+            context: this.options.context,
+        });
+
+        return { ...result, cutoff };
+    }
+}
+
+/**
+ * Create a soft delete retention job
+ */
+export function createRetentionJob<TEntity extends BaseEntity>(
+    repository: Pick<IRepository<TEntity>, 'purgeDeleted'>,
+    options: RetentionJobOptions
+): SoftDeleteRetentionJob<TEntity> {
+    return new SoftDeleteRetentionJob(repository, options);
+}
@@ -9,9 +9,14 @@ import type {
     PaginatedResult,
     SearchQuery,
     SearchResult,
+    TraceId,
 } from '../types.js';
 import type { IService, IRepository, ServiceConfig } from './types.js';
-import { generateTraceId } from '../utils/helpers.js';
+import type { EntityEventMap } from '../events/types.js';
+import { NotFoundError } from '../errors/base.js';
+import { ConcurrencyError } from '../errors/domain.js';
+import { createDomainEvent } from '../events/bus.js';
+import { generateTraceId, retry } from '../utils/helpers.js';
 
 /**
  * Abstract base service class for business logic
@@ -44,7 +49,8 @@ export abstract class BaseService<
      * Create a new entity
      */
     async create(data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
+        let entity: TEntity;
 
         try {
             // Pre-processing
@@ -56,16 +62,17 @@ export abstract class BaseService<
             }
 
             // Create entity
-            const entity = await this.repository.create(data, options);
+            entity = await this.repository.create(data, options);
 
             // Post-processing
             await this.afterCreate(entity, options);
-
-            return entity;
         } catch (error) {
             await this.onError('create', error, { data, options, traceId });
             throw error;
         }
+
+        await this.publishEvent('entity.created', { entityType: this.getEntityType(), entity }, entity.id, traceId, options);
+        return entity;
     }
 
     /**
@@ -92,7 +99,8 @@ export abstract class BaseService<
      * Update an entity
      */
     async update(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
+        let entity: TEntity;
 
         try {
             // Pre-processing
@@ -104,23 +112,24 @@ export abstract class BaseService<
             }
 
             // Update entity
-            const entity = await this.repository.update(id, data, options);
+            entity = await this.repository.update(id, data, options);
 
             // Post-processing
             await this.afterUpdate(entity, options);
-
-            return entity;
         } catch (error) {
             await this.onError('update', error, { id, data, options, traceId });
             throw error;
         }
+
+        await this.publishEvent('entity.updated', { entityType: this.getEntityType(), entity }, entity.id, traceId, options);
+        return entity;
     }
 
     /**
      * Delete an entity
      */
     async delete(id: EntityId, options?: DeleteOptions): Promise<void> {
-        const traceId = generateTraceId();
+        const traceId = options?.context?.traceId || generateTraceId();
 
         try {
             // Pre-processing
@@ -135,6 +144,8 @@ export abstract class BaseService<
             await this.onError('delete', error, { id, options, traceId });
             throw error;
         }
+
+        await this.publishEvent('entity.deleted', { entityType: this.getEntityType(), id }, id, traceId, options);
     }
 
     /**
@@ -161,24 +172,91 @@ export abstract class BaseService<
     /**
      * Search entities
      */
-    async search(query: SearchQuery): Promise<SearchResult<TEntity>> {
+    async search(query: SearchQuery, options?: FindOptions): Promise<SearchResult<TEntity>> {
         const traceId = generateTraceId();
 
         try {
-            const result = await this.repository.search(query);
+            const result = await this.repository.search(query, options);
 
             // Post-process each entity
             for (const entity of result.data) {
-                await this.afterFind(entity);
+                await this.afterFind(entity, options);
             }
 
             return result;
         } catch (error) {
-            await this.onError('search', error, { query, traceId });
+            await this.onError('search', error, { query, options, traceId });
             throw error;
         }
     }
 
+    /**
+     * Reload the entity and reapply a mutation until it commits without a version conflict
+     * @param id - Entity ID
+     * @param mutate - Builds the update input from the latest entity state
+     * @param options - Update options (the expected version is taken from the reloaded entity)
+     * @param maxAttempts - Attempts before the last ConcurrencyError is rethrown
+     */
+    protected async retryOnConflict(
+        id: EntityId,
+        mutate: (current: TEntity) => TUpdateInput | Promise<TUpdateInput>,
+        options?: UpdateOptions,
+        maxAttempts = (this.config.retries ?? 2) + 1
+    ): Promise<TEntity> {
+        return retry(async () => {
+            const current = await this.repository.findById(id, { context: options?.context });
+            if (!current) {
+                throw new NotFoundError(this.getEntityType(), id);
+            }
+
+            const data = await mutate(current);
+            return this.update(id, data, { ...options, expectedVersion: current.version });
+        }, {
+            maxAttempts,
+            delay: 25,
+            shouldRetry: error => error instanceof ConcurrencyError,
+        });
+    }
+
+    /**
+     * Publish an entity lifecycle event once the operation has completed
+     * @description Skipped unless `events` is enabled and an `eventBus` is configured, or when
+     * `skipEvents` is set. Publishing failures are reported through `onError` and never fail the operation.
+     */
+    protected async publishEvent<TType extends keyof EntityEventMap<TEntity> & string>(
+        type: TType,
+        payload: EntityEventMap<TEntity>[TType],
+        aggregateId: EntityId,
+        traceId: TraceId,
+        options?: CreateOptions | DeleteOptions
+    ): Promise<void> {
+        const eventBus = this.config.eventBus;
+        if (!this.config.events || !eventBus || options?.skipEvents) {
+            return;
+        }
+
+        const event = createDomainEvent(type, payload, {
+            aggregateId,
+            aggregateType: this.getEntityType(),
+            traceId,
+            tenantId: options?.context?.tenantId,
+            userId: options?.context?.userId,
+        });
+
+        try {
+            await eventBus.publish(event);
+        } catch (error) {
+            await this.onError('publishEvent', error, { event, options, traceId });
+        }
+    }
+
+    /**
+     * Entity type name used in events (defaults to the class name without the "Service" suffix)
+     */
+    protected getEntityType(): string {
+        return this.constructor.name.replace(/Service$/, '') || 'Entity';
+    }
+
     // Hook methods (can be overridden by subclasses)
     protected async beforeCreate(data: TCreateInput, options?: CreateOptions): Promise<void> {
         // Override in subclasses
@@ -0,0 +1,192 @@
+import type { BaseEntity, FilterCondition, FilterCriteria } from '../types.js';
+import type { ISpecification } from './types.js';
+import { matchesCriteria } from '../query/matcher.js';
+
+/**
+ * Composable specification evaluating entities and producing repository criteria
+ * @description `isSatisfiedBy` evaluates the same criteria the repository receives with SQLite
+ * semantics (NULL comparisons and LIKE case rules), so in-memory checks agree with `findBySpec`
+ * on SQLite and D1 repositories.
+ */
+export abstract class Specification<TEntity extends BaseEntity> implements ISpecification<TEntity> {
+    public abstract toCriteria(): FilterCriteria;
+
+    public isSatisfiedBy(entity: TEntity): boolean {
+        return matchesCriteria(entity as unknown as Record<string, unknown>, this.toCriteria());
+    }
+
+    public and(...others: ISpecification<TEntity>[]): Specification<TEntity> {
+        return new AndSpecification([this, ...others]);
+    }
+
+    public or(...others: ISpecification<TEntity>[]): Specification<TEntity> {
+        return new OrSpecification([this, ...others]);
+    }
+
+    public not(): Specification<TEntity> {
+        return new NotSpecification(this);
+    }
+}
+
+/**
+ * Specification of a single field condition
+ */
+export class FieldSpecification<TEntity extends BaseEntity> extends Specification<TEntity> {
+    private readonly condition: FilterCondition;
+
+    constructor(condition: FilterCondition) {
+        super();
+        this.condition = condition;
+    }
+
+    public toCriteria(): FilterCriteria {
+        return { conditions: [this.condition] };
+    }
+}
+
+/**
+ * Satisfied when every specification is
+ */
+export class AndSpecification<TEntity extends BaseEntity> extends Specification<TEntity> {
+    private readonly specifications: ISpecification<TEntity>[];
+
+    constructor(specifications: ISpecification<TEntity>[]) {
+        super();
+        this.specifications = specifications;
+    }
+
+    public toCriteria(): FilterCriteria {
+        return { groups: this.specifications.map(specification => specification.toCriteria()), logic: 'AND' };
+    }
+}
+
+/**
+ * Satisfied when any specification is
+ */
+export class OrSpecification<TEntity extends BaseEntity> extends Specification<TEntity> {
+    private readonly specifications: ISpecification<TEntity>[];
+
+    constructor(specifications: ISpecification<TEntity>[]) {
+        super();
+        this.specifications = specifications;
+    }
+
+    public toCriteria(): FilterCriteria {
+        return { groups: this.specifications.map(specification => specification.toCriteria()), logic: 'OR' };
+    }
+}
+
+/**
+ * Satisfied when the wrapped specification is not (NULL comparisons satisfy neither, as in SQL)
+ */
+export class NotSpecification<TEntity extends BaseEntity> extends Specification<TEntity> {
+    private readonly specification: ISpecification<TEntity>;
+
+    constructor(specification: ISpecification<TEntity>) {
+        super();
+        this.specification = specification;
+    }
+
+    public toCriteria(): FilterCriteria {
+        return { groups: [this.specification.toCriteria()], not: true };
+    }
+}
+
+/**
+ * Field predicates producing specifications
+ */
+export class FieldPredicate<TEntity extends BaseEntity> {
+    private readonly field: string;
+
+    constructor(field: string) {
+        this.field = field;
+    }
+
+    eq(value: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'eq', value });
+    }
+
+    ne(value: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'ne', value });
+    }
+
+    gt(value: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'gt', value });
+    }
+
+    gte(value: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'gte', value });
+    }
+
+    lt(value: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'lt', value });
+    }
+
+    lte(value: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'lte', value });
+    }
+
+    like(pattern: string): Specification<TEntity> {
+        return this.condition({ operator: 'like', value: pattern });
+    }
+
+    contains(value: string): Specification<TEntity> {
+        return this.condition({ operator: 'contains', value });
+    }
+
+    startsWith(value: string): Specification<TEntity> {
+        return this.condition({ operator: 'startsWith', value });
+    }
+
+    endsWith(value: string): Specification<TEntity> {
+        return this.condition({ operator: 'endsWith', value });
+    }
+
+    in(values: unknown[]): Specification<TEntity> {
+        return this.condition({ operator: 'in', values });
+    }
+
+    notIn(values: unknown[]): Specification<TEntity> {
+        return this.condition({ operator: 'notIn', values });
+    }
+
+    between(from: unknown, to: unknown): Specification<TEntity> {
+        return this.condition({ operator: 'between', values: [from, to] });
+    }
+
+    isNull(): Specification<TEntity> {
+        return this.condition({ operator: 'isNull' });
+    }
+
+    isNotNull(): Specification<TEntity> {
+        return this.condition({ operator: 'isNotNull' });
+    }
+
+    private condition(condition: Omit<FilterCondition, 'field'>): Specification<TEntity> {
+        return new FieldSpecification<TEntity>({ field: this.field, ...condition });
+    }
+}
+
+/**
+ * Start a specification from a field
+ * @example
+ * const overdue = where<Invoice>('status').eq('open').and(where<Invoice>('dueAt').lt(new Date()));
+ * await invoices.findBySpec(overdue);
+ */
+export function where<TEntity extends BaseEntity>(field: keyof TEntity & string): FieldPredicate<TEntity> {
+    return new FieldPredicate<TEntity>(field);
+}
+
+/**
+ * Specification satisfied when all given specifications are
+ */
+export function allOf<TEntity extends BaseEntity>(...specifications: ISpecification<TEntity>[]): Specification<TEntity> {
+    return new AndSpecification(specifications);
+}
+
+/**
+ * Specification satisfied when any given specification is
+ */
+export function anyOf<TEntity extends BaseEntity>(...specifications: ISpecification<TEntity>[]): Specification<TEntity> {
+    return new OrSpecification(specifications);
+}
@@ -0,0 +1,350 @@
+import type { BaseEntity, OperationContext } from '../types.js';
+import type { DomainEvent, IEventBus } from '../events/types.js';
+import { Entity } from './entity.js';
+import { BusinessRuleError } from '../errors/domain.js';
+import { ValidationError } from '../errors/base.js';
+import { createDomainEvent } from '../events/bus.js';
+
+/**
+ * Transition being applied, passed to guards and hooks
+ */
+export interface StateTransitionInfo<TState extends string> {
+    name: string;
+    from: TState;
+    to: TState;
+    context?: OperationContext;
+    payload?: Record<string, unknown>;
+}
+
+/**
+ * Guard deciding whether a transition may run
+ */
+export type StateGuard<TEntity, TState extends string> = (
+    entity: TEntity,
+    transition: StateTransitionInfo<TState>
+) => boolean | Promise<boolean>;
+
+/**
+ * Side-effect hook run around a transition
+ */
+export type StateHook<TEntity, TState extends string> = (
+    entity: TEntity,
+    transition: StateTransitionInfo<TState>
+) => void | Promise<void>;
+
+/**
+ * Named transition between states
+ */
+export interface StateTransitionDefinition<TEntity, TState extends string> {
+    name: string;
+    /** Source state(s); '*' allows the transition from every non-final state */
+    from: TState | TState[] | '*';
+    to: TState;
+    guard?: StateGuard<TEntity, TState>;
+    /** Shown in guard errors and diagrams */
+    guardDescription?: string;
+    /** Runs before the state changes */
+    before?: StateHook<TEntity, TState>;
+    /** Runs after the state has changed */
+    after?: StateHook<TEntity, TState>;
+}
+
+/**
+ * Declarative state machine bound to an entity field
+ */
+export interface StateMachineDefinition<TEntity, TState extends string> {
+    /** Machine name used in events and diagrams (defaults to the field name) */
+    name?: string;
+    /** Entity field holding the state */
+    field: keyof TEntity & string;
+    states: readonly TState[];
+    initial: TState;
+    /** States without outgoing transitions */
+    final?: TState[];
+    transitions: StateTransitionDefinition<TEntity, TState>[];
+    /** Hooks run when entering a state */
+    onEnter?: Partial<Record<TState, StateHook<TEntity, TState>>>;
+    /** Hooks run when leaving a state */
+    onExit?: Partial<Record<TState, StateHook<TEntity, TState>>>;
+}
+
+export type StateTransitionPayload = {
+    machine: string;
+    entityType: string;
+    field: string;
+    transition: string;
+    from: string;
+    to: string;
+    data?: Record<string, unknown>;
+};
+
+export type StateTransitionEvent = DomainEvent<'state.transitioned', StateTransitionPayload>;
+
+/**
+ * State machine options
+ */
+export interface StateMachineOptions {
+    /** Bus receiving transition events once `transitionAndSave` has stored the entity */
+    eventBus?: IEventBus;
+}
+
+/**
+ * Per-transition options
+ */
+export interface TransitionOptions {
+    context?: OperationContext;
+    /** Extra data passed to guards and hooks and carried on the event */
+    payload?: Record<string, unknown>;
+    /** Do not publish the transition event from `transitionAndSave` */
+    skipEvents?: boolean;
+}
+
+/**
+ * Finite state machine enforcing the transitions of an entity status field
+ * @description Illegal transitions and failing guards throw BusinessRuleError. A transition runs
+ * guard, `before`, `onExit`, the state change (touching `updatedAt`), `onEnter` and
+ * `after`; if a hook fails after the change, the entity's previous state is restored.
+ * `transition` only changes the entity and returns the event; publish it once the entity is
+ * stored, through `transitionAndSave` or by recording it on an aggregate (`applyTransition`).
+ */
+export class StateMachine<TEntity extends BaseEntity, TState extends string = string> {
+    private readonly definition: StateMachineDefinition<TEntity, TState>;
+    private readonly eventBus?: IEventBus;
+
+    constructor(definition: StateMachineDefinition<TEntity, TState>, options: StateMachineOptions = {}) {
+        this.definition = definition;
+        this.eventBus = options.eventBus;
+        this.assertDefinition();
+    }
+
+    public get name(): string {
+        return this.definition.name || this.definition.field;
+    }
+
+    public get initial(): TState {
+        return this.definition.initial;
+    }
+
+    /**
+     * Current state of an entity (the initial state when the field is empty)
+     */
+    public getState(entity: TEntity): TState {
+        const state = (entity as Record<string, unknown>)[this.definition.field];
+        return (state ?? this.definition.initial) as TState;
+    }
+
+    /**
+     * Names of transitions leaving the entity's current state (guards not evaluated)
+     */
+    public getAvailableTransitions(entity: TEntity): string[] {
+        const state = this.getState(entity);
+        return this.definition.transitions
+            .filter(transition => this.leaves(transition, state))
+            .map(transition => transition.name);
+    }
+
+    /**
+     * Check whether a transition is allowed from the current state and its guard passes
+     */
+    public async can(entity: TEntity, name: string, options: TransitionOptions = {}): Promise<boolean> {
+        const transition = this.findTransition(entity, name);
+        if (!transition) {
+            return false;
+        }
+        return !transition.guard || transition.guard(entity, this.describe(entity, transition, options));
+    }
+
+    /**
+     * Apply a transition to the entity without storing it or publishing its event
+     * @returns The transition event
+     * @throws BusinessRuleError when the transition is not allowed or its guard fails
+     */
+    public async transition(entity: TEntity, name: string, options: TransitionOptions = {}): Promise<StateTransitionEvent> {
+        const from = this.getState(entity);
+        const transition = this.findTransition(entity, name);
+
+        if (!transition) {
+            throw new BusinessRuleError(
+                `Cannot ${name} ${this.getEntityType(entity)} in state '${from}'`,
+                'ILLEGAL_STATE_TRANSITION',
+                {
+                    entityId: entity.id,
+                    field: this.definition.field,
+                    transition: name,
+                    from,
+                    allowed: this.getAvailableTransitions(entity),
+                }
+            );
+        }
+
+        const info = this.describe(entity, transition, options);
+        if (transition.guard && !(await transition.guard(entity, info))) {
+            throw new BusinessRuleError(
+                `Cannot ${name} ${this.getEntityType(entity)}: ${transition.guardDescription || 'guard rejected the transition'}`,
+                'STATE_TRANSITION_GUARD',
+                { entityId: entity.id, field: this.definition.field, transition: name, from, to: transition.to }
+            );
+        }
+
+        await transition.before?.(entity, info);
+        await this.definition.onExit?.[from]?.(entity, info);
+
+        const previous = { ...(entity as Record<string, unknown>) };
+        this.apply(entity, transition.to, options.context);
+
+        try {
+            await this.definition.onEnter?.[transition.to]?.(entity, info);
+            await transition.after?.(entity, info);
+        } catch (error) {
+            Object.assign(entity, previous);
+            throw error;
+        }
+
+        return createDomainEvent('state.transitioned', {
+            machine: this.name,
+            entityType: this.getEntityType(entity),
+            field: this.definition.field,
+            transition: name,
+            from,
+            to: transition.to,
+            data: options.payload,
+        }, {
+            aggregateId: entity.id,
+            aggregateType: this.getEntityType(entity),
+            tenantId: entity.tenantId,
+            userId: options.context?.userId,
+            traceId: options.context?.traceId,
+        });
+    }
+
+    /**
+     * Apply a transition, store the entity and then publish the transition event
+     * @description The event reaches the event bus only after `save` resolves; when `save` fails
+     * the entity's previous state is restored and nothing is published.
+     * @returns The saved entity
+     */
+    public async transitionAndSave(
+        entity: TEntity,
+        name: string,
+        save: (entity: TEntity) => Promise<TEntity>,
+        options: TransitionOptions = {}
+    ): Promise<TEntity> {
+        const previous = { ...(entity as Record<string, unknown>) };
+        const event = await this.transition(entity, name, options);
+
+        let saved: TEntity;
+        try {
+            saved = await save(entity);
+        } catch (error) {
+            Object.assign(entity, previous);
+            throw error;
+        }
+
+        if (this.eventBus && !options.skipEvents) {
+            await this.eventBus.publish(event);
+        }
+
+        return saved;
+    }
+
+    /**
+     * Export the machine as a Mermaid state diagram
+     */
+    public toMermaid(): string {
+        const lines = ['stateDiagram-v2', `    [*] --> ${this.definition.initial}`];
+
+        for (const transition of this.definition.transitions) {
+            const label = transition.guard
+                ? `${transition.name} [${transition.guardDescription || 'guarded'}]`
+                : transition.name;
+            for (const from of this.sources(transition)) {
+                lines.push(`    ${from} --> ${transition.to}: ${label}`);
+            }
+        }
+        for (const state of this.definition.final || []) {
+            lines.push(`    ${state} --> [*]`);
+        }
+
+        return lines.join('\n');
+    }
+
+    private findTransition(entity: TEntity, name: string): StateTransitionDefinition<TEntity, TState> | undefined {
+        const state = this.getState(entity);
+        return this.definition.transitions.find(transition => transition.name === name && this.leaves(transition, state));
+    }
+
+    private leaves(transition: StateTransitionDefinition<TEntity, TState>, state: TState): boolean {
+        return this.sources(transition).includes(state);
+    }
+
+    private sources(transition: StateTransitionDefinition<TEntity, TState>): TState[] {
+        if (transition.from === '*') {
+            const final = this.definition.final || [];
+            return this.definition.states.filter(state => !final.includes(state));
+        }
+        return Array.isArray(transition.from) ? transition.from : [transition.from];
+    }
+
+    private describe(
+        entity: TEntity,
+        transition: StateTransitionDefinition<TEntity, TState>,
+        options: TransitionOptions
+    ): StateTransitionInfo<TState> {
+        return {
+            name: transition.name,
+            from: this.getState(entity),
+            to: transition.to,
+            context: options.context,
+            payload: options.payload,
+        };
+    }
+
+    /**
+     * Set the state and update timestamps; `version` is left to the repository's optimistic locking
+     */
+    private apply(entity: TEntity, state: TState, context?: OperationContext): void {
+        (entity as Record<string, unknown>)[this.definition.field] = state;
+        entity.updatedAt = new Date();
+        if (context?.userId) {
+            entity.updatedBy = context.userId;
+        }
+    }
+
+    private getEntityType(entity: TEntity): string {
+        return entity instanceof Entity ? entity.getEntityType() : 'Entity';
+    }
+
+    private assertDefinition(): void {
+        const { states, initial, final = [], transitions } = this.definition;
+        const issues: ValidationError['issues'] = [];
+        const check = (field: string, state: string) => {
+            if (!states.includes(state as TState)) {
+                issues.push({ field, message: `Unknown state '${state}'`, code: 'UNKNOWN_STATE', value: state });
+            }
+        };
+
+        check('initial', initial);
+        final.forEach(state => check('final', state));
+        transitions.forEach((transition, index) => {
+            check(`transitions.${index}.to`, transition.to);
+            if (transition.from !== '*') {
+                (Array.isArray(transition.from) ? transition.from : [transition.from])
+                    .forEach(state => check(`transitions.${index}.from`, state));
+            }
+        });
+
+        if (issues.length > 0) {
+            throw new ValidationError(`Invalid state machine definition '${this.name}'`, issues);
+        }
+    }
+}
+
+/**
+ * Create a state machine
+ */
+export function createStateMachine<TEntity extends BaseEntity, TState extends string>(
+    definition: StateMachineDefinition<TEntity, TState>,
+    options?: StateMachineOptions
+): StateMachine<TEntity, TState> {
+    return new StateMachine(definition, options);
+}
@@ -11,6 +11,10 @@ import type {
     SearchResult,
     FilterCriteria,
 } from '../types.js';
+import type { AuditStore } from '../audit/types.js';
+import type { DatabaseAdapter } from '../database/types.js';
+import type { IEventBus } from '../events/types.js';
+import type { RelationRegistry } from './relations.js';
 
 /**
  * Repository interface for CRUD operations
@@ -25,10 +29,52 @@ export interface IRepository<
     findMany(criteria: FilterCriteria, options?: FindOptions): Promise<TEntity[]>;
     update(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity>;
     delete(id: EntityId, options?: DeleteOptions): Promise<void>;
-    count(criteria?: FilterCriteria): Promise<number>;
-    exists(id: EntityId): Promise<boolean>;
+    count(criteria?: FilterCriteria, options?: FindOptions): Promise<number>;
+    exists(id: EntityId, options?: FindOptions): Promise<boolean>;
     list(options: ListOptions): Promise<PaginatedResult<TEntity>>;
-    search(query: SearchQuery): Promise<SearchResult<TEntity>>;
+    search(query: SearchQuery, options?: FindOptions): Promise<SearchResult<TEntity>>;
+    findBySpec(specification: ISpecification<TEntity>, options?: FindOptions): Promise<TEntity[]>;
+    countBySpec(specification: ISpecification<TEntity>, options?: FindOptions): Promise<number>;
+    createMany(items: TCreateInput[], options?: BulkOptions): Promise<BulkResult<TEntity>>;
+    updateMany(criteria: FilterCriteria, patch: TUpdateInput, options?: BulkOptions): Promise<BulkResult<TEntity>>;
+    deleteMany(criteria: FilterCriteria, options?: BulkDeleteOptions): Promise<BulkResult<TEntity>>;
+    upsertMany(items: TCreateInput[], options?: BulkUpsertOptions): Promise<BulkResult<TEntity>>;
+    upsert(data: TCreateInput, options?: UpsertOptions): Promise<TEntity>;
+    findOrCreate(criteria: FilterCriteria, data: TCreateInput, options?: CreateOptions): Promise<TEntity>;
+    restore(id: EntityId, options?: UpdateOptions): Promise<TEntity>;
+    purge(id: EntityId, options?: DeleteOptions): Promise<void>;
+    purgeDeleted(deletedBefore: Date, options?: BulkOptions): Promise<BulkResult<TEntity>>;
+}
+
+/**
+ * Bulk write options
+ */
+export interface BulkOptions extends CreateOptions {
+    /** Items per batch; hooks run once per batch (default: 100) */
+    batchSize?: number;
+}
+
+export interface BulkDeleteOptions extends BulkOptions, Pick<DeleteOptions, 'soft' | 'cascade'> {}
+
+/**
+ * Upsert options
+ */
+export interface UpsertOptions extends CreateOptions {
+    /** Fields identifying an existing row, backed by a unique index in SQL stores (default: ['id']) */
+    conflictFields?: string[];
+}
+
+export interface BulkUpsertOptions extends BulkOptions, UpsertOptions {}
+
+/**
+ * Outcome of a bulk write, per input item
+ * @description `index` is the position in the input (createMany/upsertMany) or in the matched
+ * rows (updateMany/deleteMany).
+ */
+export interface BulkResult<TEntity extends BaseEntity> {
+    total: number;
+    succeeded: Array<{ index: number; id: EntityId; entity?: TEntity }>;
+    failed: Array<{ index: number; id?: EntityId; error: Error }>;
 }
 
 /**
@@ -42,6 +88,11 @@ export interface RepositoryConfig {
     optimisticLocking?: boolean;
     caching?: boolean;
     cacheTtl?: number;
+    /** Store receiving audit entries; writes are best-effort (see BaseRepository.recordAudit) */
+    auditStore?: AuditStore;
+    eventBus?: IEventBus;
+    /** Relations followed by deletes with `cascade: true` */
+    relations?: RelationRegistry;
 }
 
 /**
@@ -57,7 +108,7 @@ export interface IService<
     update(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity>;
     delete(id: EntityId, options?: DeleteOptions): Promise<void>;
     list(options: ListOptions): Promise<PaginatedResult<TEntity>>;
-    search(query: SearchQuery): Promise<SearchResult<TEntity>>;
+    search(query: SearchQuery, options?: FindOptions): Promise<SearchResult<TEntity>>;
 }
 
 /**
@@ -69,6 +120,7 @@ export interface ServiceConfig {
     auditTrail?: boolean;
     caching?: boolean;
     retries?: number;
+    eventBus?: IEventBus;
 }
 
 /**
@@ -135,7 +187,16 @@ export interface IUnitOfWork {
     commit(): Promise<void>;
     rollback(): Promise<void>;
     isActive(): boolean;
-    registerNew<TEntity extends BaseEntity>(entity: TEntity): void;
-    registerUpdated<TEntity extends BaseEntity>(entity: TEntity): void;
-    registerDeleted<TEntity extends BaseEntity>(entity: TEntity): void;
+    registerNew<TEntity extends BaseEntity>(entity: TEntity, entityType?: string): void;
+    registerUpdated<TEntity extends BaseEntity>(entity: TEntity, entityType?: string): void;
+    registerDeleted<TEntity extends BaseEntity>(entity: TEntity, entityType?: string): void;
+}
+
+/**
+ * Persists one entity type inside a unit of work transaction
+ */
+export interface UnitOfWorkMapper<TEntity extends BaseEntity = BaseEntity> {
+    insert(tx: DatabaseAdapter, entity: TEntity): Promise<void>;
+    update(tx: DatabaseAdapter, entity: TEntity): Promise<void>;
+    delete(tx: DatabaseAdapter, entity: TEntity): Promise<void>;
 } 
\ No newline at end of file
@@ -0,0 +1,365 @@
+import type { BaseEntity } from '../types.js';
+import type { DatabaseAdapter } from '../database/types.js';
+import type { SqlDialect } from '../query/types.js';
+import type { IUnitOfWork, UnitOfWorkMapper } from './types.js';
+import { NotFoundError } from '../errors/base.js';
+import { BusinessRuleError, ConcurrencyError, UnitOfWorkError } from '../errors/domain.js';
+import { SqlCompiler } from '../query/compiler.js';
+
+type ChangeKind = 'insert' | 'update' | 'delete';
+
+interface PendingChange {
+    kind: ChangeKind;
+    entityType: string;
+    entity: BaseEntity;
+}
+
+/**
+ * Unit of work collecting entity changes and flushing them in one transaction
+ * @description Inserts and updates are applied in dependency order (a type is written after the
+ * types it depends on) and deletes in reverse order. The first failed change stops the commit
+ * and rolls the transaction back, reported as a UnitOfWorkError.
+ */
+export class UnitOfWork implements IUnitOfWork {
+    private readonly adapter: DatabaseAdapter;
+    private readonly mappers: Map<string, { mapper: UnitOfWorkMapper<BaseEntity>; dependsOn: string[] }> = new Map();
+    private changes: Map<string, PendingChange> = new Map();
+    private active = false;
+
+    constructor(adapter: DatabaseAdapter) {
+        this.adapter = adapter;
+    }
+
+    /**
+     * Register how an entity type is persisted
+     * @param entityType - Entity type name used when registering changes
+     * @param mapper - Writes entities of this type using the transaction adapter
+     * @param dependsOn - Entity types that must be written before this one (e.g. parent tables)
+     */
+    public register<TEntity extends BaseEntity>(
+        entityType: string,
+        mapper: UnitOfWorkMapper<TEntity>,
+        dependsOn: string[] = []
+    ): this {
+        this.mappers.set(entityType, { mapper, dependsOn });
+        return this;
+    }
+
+    public async begin(): Promise<void> {
+        if (this.active) {
+            throw new BusinessRuleError('Unit of work has already begun', 'UNIT_OF_WORK_ACTIVE');
+        }
+        this.changes = new Map();
+        this.active = true;
+    }
+
+    public isActive(): boolean {
+        return this.active;
+    }
+
+    public registerNew<TEntity extends BaseEntity>(entity: TEntity, entityType?: string): void {
+        const type = this.resolveType(entity, entityType);
+        const existing = this.changes.get(this.key(type, entity));
+
+        if (existing) {
+            throw new BusinessRuleError(`${type} ${entity.id} is already registered`, 'UNIT_OF_WORK_DUPLICATE', {
+                entityType: type,
+                entityId: entity.id,
+                registeredAs: existing.kind,
+            });
+        }
+
+        this.track({ kind: 'insert', entityType: type, entity });
+    }
+
+    public registerUpdated<TEntity extends BaseEntity>(entity: TEntity, entityType?: string): void {
+        const type = this.resolveType(entity, entityType);
+        const existing = this.changes.get(this.key(type, entity));
+
+        if (existing?.kind === 'delete') {
+            throw new BusinessRuleError(`${type} ${entity.id} is registered for deletion`, 'UNIT_OF_WORK_DELETED', {
+                entityType: type,
+                entityId: entity.id,
+            });
+        }
+
+        // An entity created in this unit of work is still inserted, with its latest state
+        this.track({ kind: existing?.kind === 'insert' ? 'insert' : 'update', entityType: type, entity });
+    }
+
+    public registerDeleted<TEntity extends BaseEntity>(entity: TEntity, entityType?: string): void {
+        const type = this.resolveType(entity, entityType);
+        const key = this.key(type, entity);
+
+        // Deleting an entity created in this unit of work cancels the insert
+        if (this.changes.get(key)?.kind === 'insert') {
+            this.changes.delete(key);
+            return;
+        }
+
+        this.track({ kind: 'delete', entityType: type, entity });
+    }
+
+    /**
+     * Flush all registered changes in one transaction
+     * @throws UnitOfWorkError describing the first failed change
+     */
+    public async commit(): Promise<void> {
+        this.assertActive();
+        const ordered = this.orderChanges();
+
+        try {
+            await this.adapter.transaction(async (tx) => {
+                // Stop at the first failure: some databases (e.g. Postgres) abort the transaction on error
+                for (const [index, change] of ordered.entries()) {
+                    try {
+                        await this.mapperFor(change.entityType)[change.kind](tx, change.entity);
+                    } catch (error) {
+                        throw new UnitOfWorkError(`Unit of work failed at change ${index + 1} of ${ordered.length}`, [{
+                            operation: change.kind,
+                            entityType: change.entityType,
+                            entityId: change.entity.id,
+                            error,
+                        }]);
+                    }
+                }
+            });
+        } catch (error) {
+            if (error instanceof UnitOfWorkError) {
+                throw error;
+            }
+            throw new UnitOfWorkError(`Unit of work failed: ${error instanceof Error ? error.message : String(error)}`, [{
+                operation: 'commit',
+                error,
+            }]);
+        } finally {
+            this.reset();
+        }
+    }
+
+    public async rollback(): Promise<void> {
+        this.assertActive();
+        this.reset();
+    }
+
+    /**
+     * Number of pending changes
+     */
+    public get size(): number {
+        return this.changes.size;
+    }
+
+    private track(change: PendingChange): void {
+        this.assertActive();
+        this.mapperFor(change.entityType);
+
+        const key = this.key(change.entityType, change.entity);
+        // Re-registering keeps the original position so changes flush in registration order
+        this.changes.set(key, change);
+    }
+
+    /**
+     * Inserts and updates parents-first, then deletes children-first
+     */
+    private orderChanges(): PendingChange[] {
+        const typeOrder = this.sortTypes();
+        const rank = (type: string) => typeOrder.indexOf(type);
+        const changes = Array.from(this.changes.values());
+
+        const writes = changes
+            .filter(change => change.kind !== 'delete')
+            .sort((a, b) => rank(a.entityType) - rank(b.entityType));
+        const deletes = changes
+            .filter(change => change.kind === 'delete')
+            .sort((a, b) => rank(b.entityType) - rank(a.entityType));
+
+        return [...writes, ...deletes];
+    }
+
+    /**
+     * Topologically sort registered entity types by their dependencies
+     */
+    private sortTypes(): string[] {
+        const sorted: string[] = [];
+        const state = new Map<string, 'visiting' | 'done'>();
+
+        const visit = (type: string, path: string[]) => {
+            if (state.get(type) === 'done') return;
+            if (state.get(type) === 'visiting') {
+                throw new BusinessRuleError(`Cyclic unit of work dependency: ${[...path, type].join(' -> ')}`, 'UNIT_OF_WORK_CYCLE', {
+                    path: [...path, type],
+                });
+            }
+
+            state.set(type, 'visiting');
+            for (const dependency of this.mappers.get(type)?.dependsOn || []) {
+                visit(dependency, [...path, type]);
+            }
+            state.set(type, 'done');
+            sorted.push(type);
+        };
+
+        for (const type of this.mappers.keys()) {
+            visit(type, []);
+        }
+
+        return sorted;
+    }
+
+    private mapperFor(entityType: string): UnitOfWorkMapper<BaseEntity> {
+        const registration = this.mappers.get(entityType);
+        if (!registration) {
+            throw new BusinessRuleError(`No unit of work mapper registered for ${entityType}`, 'UNIT_OF_WORK_MAPPER', {
+                entityType,
+            });
+        }
+        return registration.mapper;
+    }
+
+    private resolveType(entity: BaseEntity, entityType?: string): string {
+        return entityType || entity.constructor.name;
+    }
+
+    private key(entityType: string, entity: BaseEntity): string {
+        return `${entityType}:${entity.id}`;
+    }
+
+    private assertActive(): void {
+        if (!this.active) {
+            throw new BusinessRuleError('Unit of work has not begun', 'UNIT_OF_WORK_INACTIVE');
+        }
+    }
+
+    private reset(): void {
+        this.changes = new Map();
+        this.active = false;
+    }
+}
+
+/**
+ * Unit of work mapper writing entities to a SQL table
+ * @description Updates and deletes compare-and-set on `version` when the entity has one. On D1,
+ * where writes are deferred to the batch, each one is followed by a guard that fails the batch
+ * when it matched no row, so a stale version still rejects the commit.
+ */
+export class SqlTableMapper<TEntity extends BaseEntity = BaseEntity> implements UnitOfWorkMapper<TEntity> {
+    private readonly compiler: SqlCompiler;
+    private readonly table: string;
+    private readonly entityType: string;
+    private readonly softDelete: boolean;
+
+    constructor(tableName: string, options: { dialect?: SqlDialect; softDelete?: boolean } = {}) {
+        this.compiler = new SqlCompiler(options.dialect || 'sqlite');
+        this.table = this.compiler.quoteIdentifier(tableName);
+        this.entityType = tableName;
+        this.softDelete = options.softDelete ?? false;
+    }
+
+    public async insert(tx: DatabaseAdapter, entity: TEntity): Promise<void> {
+        const row = this.toRow(entity);
+        const columns = Object.keys(row);
+
+        await tx.execute(
+            `INSERT INTO ${this.table} (${columns.map(column => this.compiler.quoteIdentifier(column)).join(', ')}) VALUES (${columns.map((_, index) => this.compiler.placeholder(index + 1)).join(', ')})`,
+            Object.values(row)
+        );
+    }
+
+    public async update(tx: DatabaseAdapter, entity: TEntity): Promise<void> {
+        const { id, createdAt, createdBy, version, ...values } = this.toRow(entity);
+        if (version !== undefined) {
+            values.version = Number(version) + 1;
+        }
+
+        await this.write(tx, entity, values);
+    }
+
+    public async delete(tx: DatabaseAdapter, entity: TEntity): Promise<void> {
+        if (this.softDelete) {
+            const deletedAt = new Date();
+            const values: Record<string, unknown> = { deletedAt, updatedAt: deletedAt };
+            if (entity.version !== undefined) {
+                values.version = entity.version + 1;
+            }
+            await this.write(tx, entity, values);
+            return;
+        }
+
+        const params: unknown[] = [entity.id];
+        let sql = `DELETE FROM ${this.table} WHERE ${this.compiler.quoteIdentifier('id')} = ${this.compiler.placeholder(1)}`;
+        if (entity.version !== undefined) {
+            sql += ` AND ${this.compiler.quoteIdentifier('version')} = ${this.compiler.placeholder(2)}`;
+            params.push(entity.version);
+        }
+
+        const result = await tx.execute(sql, params);
+        await this.assertWritten(tx, entity, result.affectedRows);
+    }
+
+    private async write(tx: DatabaseAdapter, entity: TEntity, values: Record<string, unknown>): Promise<void> {
+        const columns = Object.keys(values);
+        const params: unknown[] = [...Object.values(values), entity.id];
+        let sql = `UPDATE ${this.table} SET ${columns.map((column, index) => `${this.compiler.quoteIdentifier(column)} = ${this.compiler.placeholder(index + 1)}`).join(', ')} WHERE ${this.compiler.quoteIdentifier('id')} = ${this.compiler.placeholder(columns.length + 1)}`;
+
+        if (entity.version !== undefined) {
+            sql += ` AND ${this.compiler.quoteIdentifier('version')} = ${this.compiler.placeholder(columns.length + 2)}`;
+            params.push(entity.version);
+        }
+
+        const result = await tx.execute(sql, params);
+        await this.assertWritten(tx, entity, result.affectedRows);
+    }
+
+    private async assertWritten(tx: DatabaseAdapter, entity: TEntity, affectedRows: number): Promise<void> {
+        if (tx.deferredWrites) {
+            await tx.requireChanges?.(database => this.explainUnwritten(database, entity));
+            return;
+        }
+        if (affectedRows > 0) {
+            return;
+        }
+
+        throw await this.explainUnwritten(tx, entity) ?? new ConcurrencyError(
+            `${this.entityType} '${entity.id}' was modified by another operation`,
+            entity.version,
+            entity.version
+        );
+    }
+
+    /**
+     * Error for a write that matched no row: NotFoundError when the row is gone, ConcurrencyError
+     * when its version moved on, null when the row is as expected
+     */
+    private async explainUnwritten(database: DatabaseAdapter, entity: TEntity): Promise<Error | null> {
+        const rows = await database.query<{ version: number }>(
+            `SELECT ${this.compiler.quoteIdentifier('version')} FROM ${this.table} WHERE ${this.compiler.quoteIdentifier('id')} = ${this.compiler.placeholder(1)}`,
+            [entity.id]
+        );
+        if (rows.length === 0) {
+            return new NotFoundError(this.entityType, entity.id);
+        }
+        if (entity.version === undefined || Number(rows[0].version) === entity.version) {
+            return null;
+        }
+        return new ConcurrencyError(
+            `${this.entityType} '${entity.id}' was modified by another operation`,
+            entity.version,
+            Number(rows[0].version)
+        );
+    }
+
+    private toRow(entity: TEntity): Record<string, unknown> {
+        const source = typeof (entity as { toPlainObject?: unknown }).toPlainObject === 'function'
+            ? (entity as unknown as { toPlainObject(): Record<string, unknown> }).toPlainObject()
+            : { ...entity } as Record<string, unknown>;
+
+        return Object.fromEntries(Object.entries(source).filter(([, value]) => value !== undefined));
+    }
+}
+
+/**
+ * Create a unit of work
+ */
+export function createUnitOfWork(adapter: DatabaseAdapter): UnitOfWork {
+    return new UnitOfWork(adapter);
+}
@@ -0,0 +1,51 @@
+import type { IValueObject } from './types.js';
+import { DomainValidationError } from '../errors/domain.js';
+import { isDeepEqual } from '../utils/helpers.js';
+
+/**
+ * Abstract immutable value object compared by its properties
+ * @description Instances are frozen on construction, so subclasses keep their state in `props`
+ * and expose it through getters; operations return new instances.
+ */
+export abstract class ValueObject<TProps extends Record<string, unknown> = Record<string, unknown>>
+    implements IValueObject<ValueObject<TProps>> {
+
+    protected readonly props: Readonly<TProps>;
+
+    protected constructor(props: TProps) {
+        this.props = Object.freeze({ ...props });
+        Object.freeze(this);
+    }
+
+    /**
+     * Structural equality: same value object type and equal properties
+     */
+    public equals(other: ValueObject<TProps> | null | undefined): boolean {
+        if (!other) {
+            return false;
+        }
+        if (other === this) {
+            return true;
+        }
+        return other.constructor === this.constructor && isDeepEqual(this.props, other.props);
+    }
+
+    public toPlainObject(): Record<string, unknown> {
+        return { ...this.props };
+    }
+
+    public toJSON(): unknown {
+        return this.toPlainObject();
+    }
+
+    public toString(): string {
+        return JSON.stringify(this.toJSON());
+    }
+
+    /**
+     * Throw a DomainValidationError for an invalid value
+     */
+    protected static invalid(message: string, code: string, value: unknown, field = 'value'): never {
+        throw new DomainValidationError(message, this.name, [{ field, message, code, value }]);
+    }
+}
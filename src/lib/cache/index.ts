@@ -0,0 +1,3 @@
+export * from './repository.js';
+export * from './stores.js';
+export * from './types.js';
@@ -0,0 +1,340 @@
+import { nanoid } from 'nanoid';
+import type {
+    BaseEntity,
+    EntityId,
+    CreateOptions,
+    UpdateOptions,
+    DeleteOptions,
+    FindOptions,
+    ListOptions,
+    PaginatedResult,
+    SearchQuery,
+    SearchResult,
+    FilterCriteria,
+    OperationContext,
+} from '../types.js';
+import type {
+    BulkDeleteOptions,
+    BulkOptions,
+    BulkResult,
+    BulkUpsertOptions,
+    IRepository,
+    ISpecification,
+    RepositoryConfig,
+    UpsertOptions,
+} from '../base/types.js';
+import type { CacheStats, CacheStore, CachedRepositoryOptions } from './types.js';
+
+/**
+ * Serialize a value with sorted object keys so equal options produce equal cache keys
+ */
+const stableStringify = (value: unknown): string => {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'undefined';
+    }
+    if (value instanceof Date) {
+        return JSON.stringify(value.toISOString());
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+};
+
+/**
+ * Read-through caching decorator for repositories
+ * @description Caches `findById` and `list` results, invalidating them on writes made
+ * through this decorator. Lists are invalidated together by bumping a generation key.
+ * Stores hand back plain data, so cache hits are rehydrated through `options.factory` when set.
+ */
+export class CachedRepository<
+    TEntity extends BaseEntity,
+    TCreateInput = Partial<TEntity>,
+    TUpdateInput = Partial<TEntity>
+> implements IRepository<TEntity, TCreateInput, TUpdateInput> {
+
+    protected readonly repository: IRepository<TEntity, TCreateInput, TUpdateInput>;
+    protected readonly store: CacheStore;
+    protected readonly options: CachedRepositoryOptions<TEntity> & { ttl: number };
+    private hits = 0;
+    private misses = 0;
+
+    constructor(
+        repository: IRepository<TEntity, TCreateInput, TUpdateInput>,
+        store: CacheStore,
+        options: CachedRepositoryOptions<TEntity>
+    ) {
+        this.repository = repository;
+        this.store = store;
+        this.options = {
+            ...options,
+            ttl: options.ttl ?? 300,
+        };
+    }
+
+    /**
+     * Get cache hit/miss counters
+     */
+    public getStats(): CacheStats {
+        const total = this.hits + this.misses;
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            hitRate: total === 0 ? 0 : this.hits / total,
+        };
+    }
+
+    async create(data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
+        const entity = await this.repository.create(data, options);
+        await this.invalidateLists();
+        return entity;
+    }
+
+    async findById(id: EntityId, options?: FindOptions): Promise<TEntity | null> {
+        if (!this.isCacheable(options)) {
+            return this.repository.findById(id, options);
+        }
+
+        const key = this.entityKey(id, options?.context?.tenantId, options?.withDeleted);
+        return this.readThrough(
+            'findById',
+            key,
+            () => this.repository.findById(id, options),
+            entity => entity ? 1 : 0,
+            entity => entity && this.hydrate(entity)
+        );
+    }
+
+    async findMany(criteria: FilterCriteria, options?: FindOptions): Promise<TEntity[]> {
+        return this.repository.findMany(criteria, options);
+    }
+
+    async update(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity> {
+        try {
+            return await this.repository.update(id, data, options);
+        } finally {
+            // Invalidate even on failure: a version conflict means the cached copy is stale
+            await this.invalidateEntity(id, options?.context);
+        }
+    }
+
+    async delete(id: EntityId, options?: DeleteOptions): Promise<void> {
+        await this.repository.delete(id, options);
+        await this.invalidateEntity(id, options?.context);
+    }
+
+    async count(criteria?: FilterCriteria, options?: FindOptions): Promise<number> {
+        return this.repository.count(criteria, options);
+    }
+
+    async findBySpec(specification: ISpecification<TEntity>, options?: FindOptions): Promise<TEntity[]> {
+        return this.repository.findBySpec(specification, options);
+    }
+
+    async countBySpec(specification: ISpecification<TEntity>, options?: FindOptions): Promise<number> {
+        return this.repository.countBySpec(specification, options);
+    }
+
+    async createMany(items: TCreateInput[], options?: BulkOptions): Promise<BulkResult<TEntity>> {
+        const result = await this.repository.createMany(items, options);
+        await this.invalidateLists();
+        return result;
+    }
+
+    async updateMany(criteria: FilterCriteria, patch: TUpdateInput, options?: BulkOptions): Promise<BulkResult<TEntity>> {
+        const result = await this.repository.updateMany(criteria, patch, options);
+        await this.invalidateEntities(this.touchedIds(result), options?.context);
+        return result;
+    }
+
+    async deleteMany(criteria: FilterCriteria, options?: BulkDeleteOptions): Promise<BulkResult<TEntity>> {
+        const result = await this.repository.deleteMany(criteria, options);
+        await this.invalidateEntities(this.touchedIds(result), options?.context);
+        return result;
+    }
+
+    async upsertMany(items: TCreateInput[], options?: BulkUpsertOptions): Promise<BulkResult<TEntity>> {
+        const result = await this.repository.upsertMany(items, options);
+        await this.invalidateEntities(this.touchedIds(result), options?.context);
+        return result;
+    }
+
+    async upsert(data: TCreateInput, options?: UpsertOptions): Promise<TEntity> {
+        const entity = await this.repository.upsert(data, options);
+        await this.invalidateEntity(entity.id, options?.context);
+        return entity;
+    }
+
+    async findOrCreate(criteria: FilterCriteria, data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
+        const entity = await this.repository.findOrCreate(criteria, data, options);
+        // The entity may have just been created, so cached lists and misses are stale
+        await this.invalidateEntity(entity.id, options?.context);
+        return entity;
+    }
+
+    async restore(id: EntityId, options?: UpdateOptions): Promise<TEntity> {
+        const entity = await this.repository.restore(id, options);
+        await this.invalidateEntity(id, options?.context);
+        return entity;
+    }
+
+    async purge(id: EntityId, options?: DeleteOptions): Promise<void> {
+        await this.repository.purge(id, options);
+        await this.invalidateEntity(id, options?.context);
+    }
+
+    async purgeDeleted(deletedBefore: Date, options?: BulkOptions): Promise<BulkResult<TEntity>> {
+        const result = await this.repository.purgeDeleted(deletedBefore, options);
+        await this.invalidateEntities(this.touchedIds(result), options?.context);
+        return result;
+    }
+
+    async exists(id: EntityId, options?: FindOptions): Promise<boolean> {
+        const entity = await this.findById(id, options);
+        return entity !== null;
+    }
+
+    async list(options: ListOptions): Promise<PaginatedResult<TEntity>> {
+        if (!this.isCacheable(options)) {
+            return this.repository.list(options);
+        }
+
+        const generation = await this.getListGeneration();
+        const { context, hints, ...query } = options;
+        const key = `${this.options.prefix}:list:${generation}:${context?.tenantId ?? '-'}:${stableStringify(query)}`;
+        return this.readThrough(
+            'list',
+            key,
+            () => this.repository.list(options),
+            result => result.data.length,
+            result => ({ ...result, data: result.data.map(entity => this.hydrate(entity)) })
+        );
+    }
+
+    async search(query: SearchQuery, options?: FindOptions): Promise<SearchResult<TEntity>> {
+        return this.repository.search(query, options);
+    }
+
+    /**
+     * Read from cache, falling back to the loader and caching non-empty results
+     * @param restore - Turns a cached value back into what the loader returns
+     */
+    private async readThrough<T>(
+        operation: 'findById' | 'list',
+        key: string,
+        load: () => Promise<T>,
+        countRows: (value: T) => number,
+        restore: (cached: T) => T
+    ): Promise<T> {
+        const startTime = Date.now();
+        const cached = await this.store.get<T>(key);
+        const cacheHit = cached !== undefined;
+        let value: T;
+
+        if (cached !== undefined) {
+            this.hits++;
+            value = restore(cached);
+        } else {
+            this.misses++;
+            value = await load();
+            if (value !== null) {
+                await this.store.set(key, value, this.options.ttl);
+            }
+        }
+
+        const rows = countRows(value);
+        this.options.onMetrics?.(operation, {
+            executionTime: Date.now() - startTime,
+            rowsScanned: cacheHit ? 0 : rows,
+            rowsReturned: rows,
+            indexesUsed: [],
+            cacheHit,
+        });
+
+        return value;
+    }
+
+    private hydrate(entity: TEntity): TEntity {
+        return this.options.factory
+            ? this.options.factory.createFromPlainObject(entity as unknown as Record<string, unknown>)
+            : entity;
+    }
+
+    private isCacheable(options?: FindOptions): boolean {
+        return !options?.hints?.noCache
+            && !options?.forUpdate
+            && !options?.include?.length
+            && !options?.exclude?.length;
+    }
+
+    private entityKey(id: EntityId, tenantId?: string, withDeleted?: boolean): string {
+        return `${this.options.prefix}:id:${id}:${tenantId ?? '-'}:${withDeleted ? 1 : 0}`;
+    }
+
+    private async invalidateEntity(id: EntityId, context?: OperationContext): Promise<void> {
+        await this.invalidateEntities([id], context);
+    }
+
+    private async invalidateEntities(ids: EntityId[], context?: OperationContext): Promise<void> {
+        const tenants = Array.from(new Set([undefined, context?.tenantId]));
+        const keys = ids.flatMap(id => tenants.flatMap(tenantId => [
+            this.entityKey(id, tenantId, false),
+            this.entityKey(id, tenantId, true),
+        ]));
+
+        await Promise.all(keys.map(key => this.store.delete(key)));
+        await this.invalidateLists();
+    }
+
+    /**
+     * Ids a bulk write may have changed (failed items included, as their cached copies may be stale)
+     */
+    private touchedIds(result: BulkResult<TEntity>): EntityId[] {
+        return [...result.succeeded, ...result.failed]
+            .map(item => item.id)
+            .filter((id): id is EntityId => id !== undefined);
+    }
+
+    private async getListGeneration(): Promise<string> {
+        const key = `${this.options.prefix}:list:generation`;
+        const generation = await this.store.get<string>(key);
+        if (generation) {
+            return generation;
+        }
+
+        const created = nanoid(8);
+        await this.store.set(key, created);
+        return created;
+    }
+
+    private async invalidateLists(): Promise<void> {
+        await this.store.set(`${this.options.prefix}:list:generation`, nanoid(8));
+    }
+}
+
+/**
+ * Wrap a repository with read-through caching when `config.caching` is enabled
+ * @param repository - Repository to wrap
+ * @param store - Cache store
+ * @param config - Repository configuration (uses `caching` and `cacheTtl`)
+ * @param options - Cache options; `prefix` must be unique per repository sharing the store
+ * @returns Cached repository, or the original repository when caching is disabled
+ */
+export function withRepositoryCache<
+    TEntity extends BaseEntity,
+    TCreateInput = Partial<TEntity>,
+    TUpdateInput = Partial<TEntity>
+>(
+    repository: IRepository<TEntity, TCreateInput, TUpdateInput>,
+    store: CacheStore,
+    config: RepositoryConfig,
+    options: CachedRepositoryOptions<TEntity>
+): IRepository<TEntity, TCreateInput, TUpdateInput> {
+    if (!config.caching) {
+        return repository;
+    }
+    return new CachedRepository(repository, store, { ttl: config.cacheTtl, ...options });
+}
@@ -0,0 +1,109 @@
+/**
+ * Cache store implementations
+ * @description In-memory LRU for a single isolate and Workers KV for shared caching
+ */
+
+import type { CacheStore } from './types.js';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?Z$/;
+
+/**
+ * Workers KV rejects expirations shorter than 60 seconds
+ */
+const KV_MIN_TTL = 60;
+
+/**
+ * In-memory LRU cache store
+ * @description Values are copied on the way in and out, so callers never share a cached object.
+ */
+export class InMemoryCacheStore implements CacheStore {
+    private readonly maxEntries: number;
+    private readonly entries: Map<string, { value: unknown; expiresAt?: number }> = new Map();
+
+    constructor(maxEntries = 1000) {
+        this.maxEntries = maxEntries;
+    }
+
+    public async get<T = unknown>(key: string): Promise<T | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return structuredClone(entry.value) as T;
+    }
+
+    public async set<T = unknown>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value: structuredClone(value),
+            expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined,
+        });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+
+    public async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    /**
+     * Number of cached entries (including expired entries not yet evicted)
+     */
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Remove all cached entries
+     */
+    public clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Cache store backed by a Cloudflare Workers KV namespace
+ * @description Values are stored as JSON; ISO date strings are revived as Date objects.
+ * KV is eventually consistent, so invalidations may take up to a minute to reach other locations.
+ */
+export class KVCacheStore implements CacheStore {
+    private readonly namespace: KVNamespace;
+
+    constructor(namespace: KVNamespace) {
+        this.namespace = namespace;
+    }
+
+    public async get<T = unknown>(key: string): Promise<T | undefined> {
+        const text = await this.namespace.get(key, 'text');
+        if (text === null) {
+            return undefined;
+        }
+        return JSON.parse(text, (_, value) =>
+            typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+        ) as T;
+    }
+
+    public async set<T = unknown>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        await this.namespace.put(
+            key,
+            JSON.stringify(value),
+            ttlSeconds ? { expirationTtl: Math.max(ttlSeconds, KV_MIN_TTL) } : undefined
+        );
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.namespace.delete(key);
+    }
+}
@@ -0,0 +1,38 @@
+import type { BaseEntity } from '../types.js';
+import type { IEntityFactory } from '../base/types.js';
+import type { QueryMetrics } from '../query/types.js';
+
+/**
+ * Pluggable key/value cache
+ */
+export interface CacheStore {
+    /** Read a cached value */
+    get<T = unknown>(key: string): Promise<T | undefined>;
+    /** Store a value, optionally expiring after ttlSeconds */
+    set<T = unknown>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+    /** Remove a cached value */
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Cache hit/miss counters
+ */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    hitRate: number;
+}
+
+/**
+ * Cached repository options
+ */
+export interface CachedRepositoryOptions<TEntity extends BaseEntity = BaseEntity> {
+    /** Time to live in seconds for cached reads */
+    ttl?: number;
+    /** Key prefix that namespaces this repository in a shared store, e.g. its entity type or table name */
+    prefix: string;
+    /** Factory rehydrating cached entities, so hits return the same kind of object as the wrapped repository */
+    factory?: IEntityFactory<TEntity>;
+    /** Receives metrics for every cacheable read */
+    onMetrics?: (operation: 'findById' | 'list', metrics: QueryMetrics) => void;
+}
@@ -8,8 +8,10 @@ import type {
     DatabaseConnection,
     ConnectionConfig,
     ConnectionPool,
-    DatabaseAdapter
+    DatabaseAdapter,
+    SqliteDatabase
 } from './types.js';
+import { DatabaseError } from '../errors/base.js';
 
 /**
  * Database connection manager for Cloudflare Workers
@@ -123,29 +125,236 @@ export function createConnectionPool(config: {
     };
 }
 
+/**
+ * Convert parameter values into types every SQLite driver can bind
+ * @description Dates become ISO strings, booleans become 0/1, objects become JSON text
+ * @param params - Raw statement parameters
+ * @returns Bindable parameters
+ */
+export function toSqlParams(params: unknown[]): unknown[] {
+    return params.map(value => {
+        if (value === undefined || value === null) {
+            return null;
+        }
+        if (value instanceof Date) {
+            return value.toISOString();
+        }
+        if (typeof value === 'boolean') {
+            return value ? 1 : 0;
+        }
+        if (typeof value === 'object' && !(value instanceof ArrayBuffer) && !ArrayBuffer.isView(value)) {
+            return JSON.stringify(value);
+        }
+        return value;
+    });
+}
+
+/**
+ * D1 batch guard: `json()` rejects the malformed text when the previous write changed no rows,
+ * failing the batch (D1 has no RAISE outside triggers)
+ * @private
+ */
+const CHANGES_GUARD_SQL = "SELECT json(CASE WHEN changes() = 0 THEN 'no rows changed' ELSE 'null' END)";
+
+/**
+ * Wrap a driver error as a DatabaseError, keeping the original message
+ * @private
+ */
+function toDatabaseError(error: unknown, operation: string, sql?: string): DatabaseError {
+    if (error instanceof DatabaseError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new DatabaseError(message, operation, sql);
+}
+
 /**
  * Database adapter for Cloudflare D1
+ * @description D1 has no interactive transactions, so `transaction` queues every
+ * write issued by the callback and commits them atomically with `batch()` once the
+ * callback resolves. Writes inside a transaction report `affectedRows: 0` because
+ * nothing runs until the batch commits, and reads are only allowed before the first
+ * queued write since they could not observe it. A failed nested transaction discards
+ * the writes it queued, like a savepoint rollback. `requireChanges` queues a guard that
+ * fails the batch when the preceding write changed no rows.
  * @param database - D1 database instance
  * @returns Database adapter
  */
 export function createD1Adapter(database: D1Database): DatabaseAdapter {
-    return {
+    const prepare = (sql: string, params: unknown[]): D1PreparedStatement => {
+        const statement = database.prepare(sql);
+        return params.length > 0 ? statement.bind(...toSqlParams(params)) : statement;
+    };
+
+    const query = async <T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> => {
+        try {
+            const result = await prepare(sql, params).all<T>();
+            return result.results;
+        } catch (error) {
+            throw toDatabaseError(error, 'query', sql);
+        }
+    };
+
+    const adapter: DatabaseAdapter = {
         type: 'sqlite',
         database: database as unknown as DrizzleD1Database,
 
-        async query<T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> {
-            // D1 query implementation would go here
-            throw new Error('D1 adapter query not implemented');
-        },
+        query,
 
         async execute(sql: string, params: unknown[] = []): Promise<{ affectedRows: number }> {
-            // D1 execute implementation would go here
-            throw new Error('D1 adapter execute not implemented');
+            try {
+                const result = await prepare(sql, params).run();
+                return { affectedRows: result.meta.changes };
+            } catch (error) {
+                throw toDatabaseError(error, 'execute', sql);
+            }
         },
 
         async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
-            // D1 transaction implementation would go here
-            throw new Error('D1 adapter transaction not implemented');
+            const statements: D1PreparedStatement[] = [];
+            const guards: Array<(database: DatabaseAdapter) => Promise<Error | null>> = [];
+            let committed = false;
+
+            const tx: DatabaseAdapter = {
+                type: 'sqlite',
+                database: database as unknown as DrizzleD1Database,
+                deferredWrites: true,
+
+                async query<R = unknown>(sql: string, params: unknown[] = []): Promise<R[]> {
+                    if (committed) {
+                        throw new DatabaseError('D1 transaction has already been committed', 'query', sql);
+                    }
+                    if (statements.length > 0) {
+                        throw new DatabaseError(
+                            'D1 transactions run as a single batch: reads must happen before the first write',
+                            'query',
+                            sql
+                        );
+                    }
+                    return query<R>(sql, params);
+                },
+
+                async execute(sql: string, params: unknown[] = []): Promise<{ affectedRows: number }> {
+                    if (committed) {
+                        throw new DatabaseError('D1 transaction has already been committed', 'execute', sql);
+                    }
+                    statements.push(prepare(sql, params));
+                    return { affectedRows: 0 };
+                },
+
+                async transaction<R>(nested: (inner: DatabaseAdapter) => Promise<R>): Promise<R> {
+                    // Savepoints are not available in a batch: nested work joins the outer batch,
+                    // and its queued writes are dropped when it fails
+                    const savepoint = { statements: statements.length, guards: guards.length };
+                    try {
+                        return await nested(tx);
+                    } catch (error) {
+                        statements.length = savepoint.statements;
+                        guards.length = savepoint.guards;
+                        throw error;
+                    }
+                },
+
+                async requireChanges(explain: (database: DatabaseAdapter) => Promise<Error | null>): Promise<void> {
+                    if (committed) {
+                        throw new DatabaseError('D1 transaction has already been committed', 'execute', CHANGES_GUARD_SQL);
+                    }
+                    statements.push(prepare(CHANGES_GUARD_SQL, []));
+                    guards.push(explain);
+                }
+            };
+
+            const result = await callback(tx);
+            committed = true;
+
+            if (statements.length > 0) {
+                try {
+                    await database.batch(statements);
+                } catch (error) {
+                    // The batch rolled back: report the first guarded write that explains the failure
+                    for (const explain of guards) {
+                        const failure = await explain(adapter);
+                        if (failure) {
+                            throw failure;
+                        }
+                    }
+                    throw toDatabaseError(error, 'transaction');
+                }
+            }
+
+            return result;
+        }
+    };
+
+    return adapter;
+}
+
+/**
+ * Database adapter for an embedded SQLite database (Node scripts and tests)
+ * @description Accepts a `node:sqlite` DatabaseSync or better-sqlite3 instance. Top-level
+ * transactions are serialized and nested transactions map to savepoints, so an inner
+ * failure only rolls back the inner callback.
+ * @param database - SQLite database instance
+ * @returns Database adapter
+ */
+export function createSqliteAdapter(database: SqliteDatabase): DatabaseAdapter {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const query = async <T = unknown>(sql: string, params: unknown[] = []): Promise<T[]> => {
+        try {
+            return database.prepare(sql).all(...toSqlParams(params)) as T[];
+        } catch (error) {
+            throw toDatabaseError(error, 'query', sql);
+        }
+    };
+
+    const execute = async (sql: string, params: unknown[] = []): Promise<{ affectedRows: number }> => {
+        try {
+            const result = database.prepare(sql).run(...toSqlParams(params));
+            return { affectedRows: Number(result.changes) };
+        } catch (error) {
+            throw toDatabaseError(error, 'execute', sql);
+        }
+    };
+
+    const scope = (level: number): DatabaseAdapter => ({
+        type: 'sqlite',
+        database,
+        query,
+        execute,
+        transaction: <T>(callback: (tx: DatabaseAdapter) => Promise<T>) => run(level + 1, callback)
+    });
+
+    const run = async <T>(level: number, callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> => {
+        const savepoint = `sp_${level}`;
+        database.exec(level === 1 ? 'BEGIN' : `SAVEPOINT ${savepoint}`);
+
+        try {
+            const result = await callback(scope(level));
+            database.exec(level === 1 ? 'COMMIT' : `RELEASE SAVEPOINT ${savepoint}`);
+            return result;
+        } catch (error) {
+            if (level === 1) {
+                database.exec('ROLLBACK');
+            } else {
+                database.exec(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+                database.exec(`RELEASE SAVEPOINT ${savepoint}`);
+            }
+            throw error;
+        }
+    };
+
+    return {
+        type: 'sqlite',
+        database,
+        query,
+        execute,
+
+        async transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T> {
+            // The connection is shared, so top-level transactions must not interleave
+            const pending = queue.then(() => run(1, callback));
+            queue = pending.catch(() => undefined);
+            return pending;
         }
     };
 }
@@ -82,6 +82,8 @@ export interface DatabaseAdapter {
     type: string;
     /** Database instance */
     database: DrizzleD1Database | unknown;
+    /** Writes are queued until the transaction commits, so `execute` cannot report affected rows */
+    deferredWrites?: boolean;
 
     /** Execute a query and return results */
     query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]>;
@@ -89,6 +91,33 @@ export interface DatabaseAdapter {
     execute(sql: string, params?: unknown[]): Promise<{ affectedRows: number }>;
     /** Execute operations within a transaction */
     transaction<T>(callback: (tx: DatabaseAdapter) => Promise<T>): Promise<T>;
+    /**
+     * Fail the deferred transaction when the last queued write changes no rows (adapters with `deferredWrites`)
+     * @param explain - Resolves the error to report, run against the database once the transaction has
+     * rolled back; resolves null when the write was not the one that failed
+     */
+    requireChanges?(explain: (database: DatabaseAdapter) => Promise<Error | null>): Promise<void>;
+}
+
+/**
+ * Prepared statement of a synchronous embedded SQLite driver
+ */
+export interface SqliteStatement {
+    /** Run the statement and return all rows */
+    all(...params: unknown[]): unknown[];
+    /** Run the statement and return the number of changed rows */
+    run(...params: unknown[]): { changes: number | bigint };
+}
+
+/**
+ * Synchronous embedded SQLite database
+ * @description Structurally matches `node:sqlite` DatabaseSync and better-sqlite3
+ */
+export interface SqliteDatabase {
+    /** Prepare a statement */
+    prepare(sql: string): SqliteStatement;
+    /** Execute one or more statements without parameters */
+    exec(sql: string): unknown;
 }
 
 /**
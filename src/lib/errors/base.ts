@@ -27,8 +27,11 @@ export abstract class BaseError extends Error {
         this.timestamp = new Date();
 
         // Maintains proper stack trace for where our error was thrown (only available on V8)
-        if ((Error as any).captureStackTrace) {
-            (Error as any).captureStackTrace(this, this.constructor);
+        const v8Error = Error as ErrorConstructor & {
+            captureStackTrace?: (target: object, constructor?: object) => void;
+        };
+        if (v8Error.captureStackTrace) {
+            v8Error.captureStackTrace(this, this.constructor);
         }
 
         // Set the prototype explicitly to ensure instanceof works correctly
@@ -211,4 +211,49 @@ export class TimeoutError extends BaseError {
             timeoutMs: this.timeoutMs,
         };
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Unit of work commit failure, describing the change that failed
+ */
+export class UnitOfWorkError extends BaseError {
+    public readonly failures: Array<{
+        operation: 'insert' | 'update' | 'delete' | 'commit';
+        entityType?: string;
+        entityId?: string;
+        error: unknown;
+    }>;
+
+    constructor(
+        message: string,
+        failures: UnitOfWorkError['failures'],
+        context?: ErrorContext
+    ) {
+        const statuses = failures.map(failure => failure.error instanceof BaseError ? failure.error.statusCode : 500);
+        super(message, 'UNIT_OF_WORK_ERROR', statuses.every(status => status === statuses[0]) ? statuses[0] ?? 500 : 500, context);
+        this.failures = failures;
+    }
+
+    public isRetryable(): boolean {
+        return this.failures.length > 0
+            && this.failures.every(failure => failure.error instanceof BaseError && failure.error.isRetryable());
+    }
+
+    public getSeverity(): 'low' | 'medium' | 'high' | 'critical' {
+        return 'high';
+    }
+
+    public override toJSON(): Record<string, unknown> {
+        return {
+            ...super.toJSON(),
+            failures: this.failures.map(failure => ({
+                operation: failure.operation,
+                entityType: failure.entityType,
+                entityId: failure.entityId,
+                error: failure.error instanceof BaseError
+                    ? failure.error.toJSON()
+                    : { message: failure.error instanceof Error ? failure.error.message : String(failure.error) },
+            })),
+        };
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * In-process domain event bus
+ * @description Handlers run sequentially in subscription order; a failing handler is reported
+ * through `onError` and never prevents the remaining handlers from running.
+ */
+
+import type {
+    AnyEventOf,
+    DomainEvent,
+    EventBusOptions,
+    EventErrorHandler,
+    EventHandler,
+    EventMap,
+    EventOf,
+    IEventBus,
+    Unsubscribe,
+} from './types.js';
+import { generateId, generateTraceId } from '../utils/helpers.js';
+
+/**
+ * Default handler failure reporter (Cloudflare Workers compatible)
+ */
+const logHandlerError: EventErrorHandler = (error, event) => {
+    console.error(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        level: 'error',
+        message: 'Event handler failed',
+        error: error instanceof Error ? { name: error.name, message: error.message } : String(error),
+        event: { id: event.id, type: event.type, traceId: event.traceId },
+    }));
+};
+
+/**
+ * Typed publish/subscribe event bus
+ */
+export class EventBus<TEvents extends EventMap = EventMap> implements IEventBus<TEvents> {
+    private readonly handlers: Map<string, Set<EventHandler<AnyEventOf<TEvents>>>> = new Map();
+    private readonly wildcardHandlers: Set<EventHandler<AnyEventOf<TEvents>>> = new Set();
+    private readonly onError: EventErrorHandler;
+
+    constructor(options: EventBusOptions = {}) {
+        this.onError = options.onError || logHandlerError;
+    }
+
+    /**
+     * Deliver events to their subscribers
+     */
+    public async publish(events: AnyEventOf<TEvents> | AnyEventOf<TEvents>[]): Promise<void> {
+        for (const event of Array.isArray(events) ? events : [events]) {
+            const handlers = [
+                ...(this.handlers.get(event.type) || []),
+                ...this.wildcardHandlers,
+            ];
+
+            for (const handler of handlers) {
+                try {
+                    await handler(event);
+                } catch (error) {
+                    await this.reportError(error, event);
+                }
+            }
+        }
+    }
+
+    /**
+     * Subscribe to a single event type
+     */
+    public subscribe<TType extends keyof TEvents & string>(
+        type: TType,
+        handler: EventHandler<EventOf<TEvents, TType>>
+    ): Unsubscribe {
+        // Only events of `type` are delivered to handlers registered under it
+        const registered = handler as EventHandler<AnyEventOf<TEvents>>;
+        let handlers = this.handlers.get(type);
+        if (!handlers) {
+            handlers = new Set();
+            this.handlers.set(type, handlers);
+        }
+        handlers.add(registered);
+
+        return () => {
+            handlers.delete(registered);
+        };
+    }
+
+    /**
+     * Subscribe to every event type
+     */
+    public subscribeAll(handler: EventHandler<AnyEventOf<TEvents>>): Unsubscribe {
+        this.wildcardHandlers.add(handler);
+        return () => {
+            this.wildcardHandlers.delete(handler);
+        };
+    }
+
+    /**
+     * Number of handlers for an event type, including wildcard handlers
+     */
+    public listenerCount(type: keyof TEvents & string): number {
+        return (this.handlers.get(type)?.size || 0) + this.wildcardHandlers.size;
+    }
+
+    /**
+     * Remove all subscriptions
+     */
+    public clear(): void {
+        this.handlers.clear();
+        this.wildcardHandlers.clear();
+    }
+
+    private async reportError(error: unknown, event: DomainEvent): Promise<void> {
+        try {
+            await this.onError(error, event);
+        } catch {
+            // An error reporter must never break delivery
+        }
+    }
+}
+
+/**
+ * Create a domain event envelope
+ * @param type - Event type
+ * @param payload - Event payload
+ * @param fields - Optional envelope fields (aggregate, trace, tenant, metadata)
+ * @returns Domain event with generated id and timestamp
+ */
+export function createDomainEvent<TType extends string, TPayload>(
+    type: TType,
+    payload: TPayload,
+    fields: Partial<Omit<DomainEvent<TType, TPayload>, 'type' | 'payload'>> = {}
+): DomainEvent<TType, TPayload> {
+    return {
+        ...fields,
+        id: fields.id ?? generateId(),
+        occurredAt: fields.occurredAt ?? new Date(),
+        traceId: fields.traceId ?? generateTraceId(),
+        type,
+        payload,
+    };
+}
+
+/**
+ * Create an event bus
+ */
+export function createEventBus<TEvents extends EventMap = EventMap>(options?: EventBusOptions): EventBus<TEvents> {
+    return new EventBus<TEvents>(options);
+}
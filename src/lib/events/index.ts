@@ -0,0 +1,6 @@
+export * from './bus.js';
+export * from './outbox.js';
+export * from './projections.js';
+export * from './repository.js';
+export * from './store.js';
+export * from './types.js';
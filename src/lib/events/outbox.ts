@@ -0,0 +1,351 @@
+/**
+ * Transactional outbox
+ * @description Events are written to an outbox table inside the same transaction as the
+ * entity change, then delivered by a relay. Delivery is at-least-once: dispatchers must be idempotent.
+ */
+
+import type { EntityId } from '../types.js';
+import type { DatabaseAdapter, Migration } from '../database/types.js';
+import type { SqlDialect } from '../query/types.js';
+import type {
+    DomainEvent,
+    OutboxDispatcher,
+    OutboxDrainResult,
+    OutboxMessage,
+    OutboxRelayOptions,
+    OutboxStatus,
+} from './types.js';
+import { createMigration } from '../database/migrations.js';
+import { SqlCompiler } from '../query/compiler.js';
+import { createFilter, orFilters } from '../query/filters.js';
+import { retry } from '../utils/helpers.js';
+
+const DEFAULT_TABLE = '_event_outbox';
+
+/**
+ * Outbox table row
+ */
+interface OutboxRow {
+    id: string;
+    eventType: string;
+    aggregateType: string | null;
+    aggregateId: string | null;
+    event: string;
+    status: OutboxStatus;
+    attempts: number;
+    lastError: string | null;
+    createdAt: string;
+    availableAt: string;
+    lockedUntil: string | null;
+    publishedAt: string | null;
+}
+
+/**
+ * Outbox table access through a DatabaseAdapter
+ */
+export class TransactionalOutbox {
+    private readonly adapter: DatabaseAdapter;
+    private readonly compiler: SqlCompiler;
+    private readonly table: string;
+
+    constructor(adapter: DatabaseAdapter, tableName = DEFAULT_TABLE) {
+        this.adapter = adapter;
+        this.compiler = new SqlCompiler(adapter.type as SqlDialect);
+        this.table = this.compiler.quoteIdentifier(tableName);
+    }
+
+    /**
+     * Run work in a transaction and write the events it records to the outbox before commit
+     * @param work - Receives the transaction adapter and a function recording events
+     * @returns Result of the work
+     */
+    public async transaction<T>(
+        work: (tx: DatabaseAdapter, record: (events: DomainEvent | DomainEvent[]) => void) => Promise<T>
+    ): Promise<T> {
+        return this.adapter.transaction(async (tx) => {
+            const events: DomainEvent[] = [];
+            const result = await work(tx, recorded => {
+                events.push(...(Array.isArray(recorded) ? recorded : [recorded]));
+            });
+
+            await this.add(tx, events);
+            return result;
+        });
+    }
+
+    /**
+     * Write events to the outbox using the given transaction
+     * @param tx - Transaction adapter the entity change is written with
+     * @param events - Events to enqueue
+     */
+    public async add(tx: DatabaseAdapter, events: DomainEvent | DomainEvent[]): Promise<void> {
+        const columns = ['id', 'eventType', 'aggregateType', 'aggregateId', 'event', 'status', 'attempts', 'createdAt', 'availableAt'];
+        const placeholders = columns.map((_, index) => this.compiler.placeholder(index + 1));
+        const statement = `INSERT INTO ${this.table} (${columns.map(column => this.compiler.quoteIdentifier(column)).join(', ')}) VALUES (${placeholders.join(', ')})`;
+        const now = new Date().toISOString();
+
+        for (const event of Array.isArray(events) ? events : [events]) {
+            await tx.execute(statement, [
+                event.id,
+                event.type,
+                event.aggregateType ?? null,
+                event.aggregateId ?? null,
+                JSON.stringify(event),
+                'pending',
+                0,
+                now,
+                now,
+            ]);
+        }
+    }
+
+    /**
+     * Claim pending messages that are due, hiding them from other relays for the lease period
+     * @param limit - Maximum messages to claim
+     * @param leaseSeconds - Lease duration
+     * @returns Claimed messages, oldest first
+     */
+    public async claim(limit: number, leaseSeconds: number): Promise<OutboxMessage[]> {
+        const now = new Date();
+        const nowText = now.toISOString();
+        const filter = {
+            groups: [
+                createFilter().eq('status', 'pending').lte('availableAt', nowText).build(),
+                orFilters(
+                    createFilter().isNull('lockedUntil').build(),
+                    createFilter().lte('lockedUntil', nowText).build()
+                ),
+            ],
+            logic: 'AND' as const,
+        };
+        const compiled = this.compiler.compile({
+            filter,
+            sort: [{ field: 'createdAt', direction: 'ASC' }, { field: 'id', direction: 'ASC' }],
+            limit,
+        });
+        const rows = await this.adapter.query<OutboxRow>(`SELECT * FROM ${this.table} ${compiled.sql}`, compiled.params);
+
+        const lockedUntil = new Date(now.getTime() + leaseSeconds * 1000).toISOString();
+        const lockColumn = this.compiler.quoteIdentifier('lockedUntil');
+        const claimed: OutboxMessage[] = [];
+
+        for (const row of rows) {
+            // Compare-and-set on the previous lock so concurrent relays never claim the same row
+            const result = await this.adapter.execute(
+                `UPDATE ${this.table} SET ${lockColumn} = ${this.compiler.placeholder(1)} WHERE ${this.compiler.quoteIdentifier('id')} = ${this.compiler.placeholder(2)} AND ${row.lockedUntil === null ? `${lockColumn} IS NULL` : `${lockColumn} = ${this.compiler.placeholder(3)}`}`,
+                row.lockedUntil === null ? [lockedUntil, row.id] : [lockedUntil, row.id, row.lockedUntil]
+            );
+
+            if (result.affectedRows > 0) {
+                claimed.push(this.toMessage(row));
+            }
+        }
+
+        return claimed;
+    }
+
+    /**
+     * Mark a message as delivered
+     */
+    public async markPublished(id: EntityId, attempts: number): Promise<void> {
+        await this.updateMessage(id, {
+            status: 'published',
+            attempts,
+            lastError: null,
+            lockedUntil: null,
+            publishedAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Record a failed delivery and schedule the next attempt
+     */
+    public async markFailed(id: EntityId, attempts: number, error: string, availableAt: Date): Promise<void> {
+        await this.updateMessage(id, {
+            status: 'pending',
+            attempts,
+            lastError: error,
+            lockedUntil: null,
+            availableAt: availableAt.toISOString(),
+        });
+    }
+
+    /**
+     * Move a message to the dead-letter status
+     */
+    public async markDeadLetter(id: EntityId, attempts: number, error: string): Promise<void> {
+        await this.updateMessage(id, {
+            status: 'dead_letter',
+            attempts,
+            lastError: error,
+            lockedUntil: null,
+        });
+    }
+
+    /**
+     * Return a dead-lettered message to the pending queue with a fresh attempt budget
+     */
+    public async requeue(id: EntityId): Promise<void> {
+        await this.updateMessage(id, {
+            status: 'pending',
+            attempts: 0,
+            lockedUntil: null,
+            availableAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * List messages by status, oldest first
+     */
+    public async list(status: OutboxStatus, limit = 100): Promise<OutboxMessage[]> {
+        const compiled = this.compiler.compile({
+            filter: createFilter().eq('status', status).build(),
+            sort: [{ field: 'createdAt', direction: 'ASC' }, { field: 'id', direction: 'ASC' }],
+            limit,
+        });
+        const rows = await this.adapter.query<OutboxRow>(`SELECT * FROM ${this.table} ${compiled.sql}`, compiled.params);
+        return rows.map(row => this.toMessage(row));
+    }
+
+    private async updateMessage(id: EntityId, values: Partial<Omit<OutboxRow, 'id'>>): Promise<void> {
+        const entries = Object.entries(values);
+        const assignments = entries.map(([column], index) =>
+            `${this.compiler.quoteIdentifier(column)} = ${this.compiler.placeholder(index + 1)}`
+        );
+
+        await this.adapter.execute(
+            `UPDATE ${this.table} SET ${assignments.join(', ')} WHERE ${this.compiler.quoteIdentifier('id')} = ${this.compiler.placeholder(entries.length + 1)}`,
+            [...entries.map(([, value]) => value), id]
+        );
+    }
+
+    private toMessage(row: OutboxRow): OutboxMessage {
+        const event = JSON.parse(row.event) as DomainEvent;
+        event.occurredAt = new Date(event.occurredAt);
+
+        const message: OutboxMessage = {
+            id: row.id as EntityId,
+            event,
+            status: row.status,
+            attempts: Number(row.attempts),
+            createdAt: new Date(row.createdAt),
+            availableAt: new Date(row.availableAt),
+        };
+
+        if (row.lastError) {
+            message.lastError = row.lastError;
+        }
+        if (row.publishedAt) {
+            message.publishedAt = new Date(row.publishedAt);
+        }
+
+        return message;
+    }
+}
+
+/**
+ * Drains pending outbox messages to a dispatcher
+ * @description Each claimed message is retried with exponential backoff; when the attempts for
+ * this drain are exhausted it is deferred, and once `maxAttempts` is reached it is dead-lettered.
+ */
+export class OutboxRelay {
+    private readonly outbox: TransactionalOutbox;
+    private readonly dispatcher: OutboxDispatcher;
+    private readonly options: Required<OutboxRelayOptions>;
+
+    constructor(outbox: TransactionalOutbox, dispatcher: OutboxDispatcher, options: OutboxRelayOptions = {}) {
+        this.outbox = outbox;
+        this.dispatcher = dispatcher;
+        this.options = {
+            batchSize: 50,
+            maxAttempts: 5,
+            attemptsPerDrain: 3,
+            delay: 100,
+            backoffFactor: 2,
+            leaseSeconds: 60,
+            ...options,
+        };
+    }
+
+    /**
+     * Deliver one batch of due messages
+     * @returns Counts of published, deferred and dead-lettered messages
+     */
+    public async drain(): Promise<OutboxDrainResult> {
+        const result: OutboxDrainResult = { published: 0, failed: 0, deadLettered: 0 };
+        const messages = await this.outbox.claim(this.options.batchSize, this.options.leaseSeconds);
+
+        for (const message of messages) {
+            let attempts = message.attempts;
+            const remaining = this.options.maxAttempts - attempts;
+
+            try {
+                await retry(async () => {
+                    attempts++;
+                    await this.dispatcher(message.event);
+                }, {
+                    maxAttempts: Math.max(1, Math.min(this.options.attemptsPerDrain, remaining)),
+                    delay: this.options.delay,
+                    backoffFactor: this.options.backoffFactor,
+                });
+
+                await this.outbox.markPublished(message.id, attempts);
+                result.published++;
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+
+                if (attempts >= this.options.maxAttempts) {
+                    await this.outbox.markDeadLetter(message.id, attempts, reason);
+                    result.deadLettered++;
+                } else {
+                    const backoff = this.options.delay * Math.pow(this.options.backoffFactor, attempts);
+                    await this.outbox.markFailed(message.id, attempts, reason, new Date(Date.now() + backoff));
+                    result.failed++;
+                }
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Create the migration that provisions the outbox table
+ * @param options - Table name and SQL dialect
+ * @returns Migration for MigrationManager
+ */
+export function createOutboxMigration(options: { tableName?: string; dialect?: SqlDialect } = {}): Migration {
+    const tableName = options.tableName || DEFAULT_TABLE;
+    const dialect = options.dialect || 'sqlite';
+    const compiler = new SqlCompiler(dialect);
+    const table = compiler.quoteIdentifier(tableName);
+    const column = (name: string) => compiler.quoteIdentifier(name);
+    const indexName = column(`idx${tableName}_status`);
+    const indexColumns = `(${column('status')}, ${column('availableAt')}, ${column('createdAt')})`;
+
+    // MySQL has no CREATE INDEX IF NOT EXISTS, so the index is declared with the table there
+    const migration = createMigration(`create${tableName}`, `Create event outbox table ${tableName}`)
+        .setTimestamp(new Date(0))
+        .addUp(`CREATE TABLE IF NOT EXISTS ${table} (
+        ${column('id')} VARCHAR(64) PRIMARY KEY,
+        ${column('eventType')} VARCHAR(128) NOT NULL,
+        ${column('aggregateType')} VARCHAR(128),
+        ${column('aggregateId')} VARCHAR(64),
+        ${column('event')} TEXT NOT NULL,
+        ${column('status')} VARCHAR(16) NOT NULL,
+        ${column('attempts')} INTEGER NOT NULL DEFAULT 0,
+        ${column('lastError')} TEXT,
+        ${column('createdAt')} VARCHAR(32) NOT NULL,
+        ${column('availableAt')} VARCHAR(32) NOT NULL,
+        ${column('lockedUntil')} VARCHAR(32),
+        ${column('publishedAt')} VARCHAR(32)${dialect === 'mysql' ? `,
+        INDEX ${indexName} ${indexColumns}` : ''}
+      )`);
+    if (dialect !== 'mysql') {
+        migration.addUp(`CREATE INDEX IF NOT EXISTS ${indexName} ON ${table} ${indexColumns}`);
+    }
+
+    return migration
+        .addDown(`DROP TABLE ${table}`)
+        .build();
+}
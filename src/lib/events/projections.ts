@@ -0,0 +1,213 @@
+/**
+ * Projections
+ * @description Builds read models from the event store in global order. Each event is applied in
+ * its own transaction together with the projection checkpoint, so a crash never applies an event twice.
+ */
+
+import type { DatabaseAdapter, Migration } from '../database/types.js';
+import type { SqlDialect } from '../query/types.js';
+import type {
+    IEventStore,
+    Projection,
+    ProjectionContext,
+    ProjectionRunResult,
+    ProjectionRunnerOptions,
+    StoredEvent,
+} from './types.js';
+import { NotFoundError } from '../errors/base.js';
+import { BusinessRuleError } from '../errors/domain.js';
+import { createMigration } from '../database/migrations.js';
+import { SqlCompiler } from '../query/compiler.js';
+
+const DEFAULT_CHECKPOINT_TABLE = '_projection_checkpoints';
+
+/**
+ * Runs projections and tracks their checkpoints in the database
+ */
+export class ProjectionRunner {
+    private readonly adapter: DatabaseAdapter;
+    private readonly store: IEventStore;
+    private readonly compiler: SqlCompiler;
+    private readonly checkpointTable: string;
+    private readonly batchSize: number;
+    private readonly projections: Map<string, Projection> = new Map();
+
+    constructor(adapter: DatabaseAdapter, store: IEventStore, options: ProjectionRunnerOptions = {}) {
+        this.adapter = adapter;
+        this.store = store;
+        this.compiler = new SqlCompiler(adapter.type as SqlDialect);
+        this.checkpointTable = this.compiler.quoteIdentifier(options.checkpointTable || DEFAULT_CHECKPOINT_TABLE);
+        this.batchSize = options.batchSize || 100;
+    }
+
+    /**
+     * Register a projection
+     */
+    public register(projection: Projection): this {
+        this.projections.set(projection.name, projection);
+        return this;
+    }
+
+    /**
+     * Apply new events to one projection, or to all registered projections
+     * @param name - Projection name (all projections when omitted)
+     * @returns Events applied and the checkpoint reached per projection
+     */
+    public async run(name?: string): Promise<ProjectionRunResult[]> {
+        const projections = name ? [this.getProjection(name)] : Array.from(this.projections.values());
+        const results: ProjectionRunResult[] = [];
+
+        for (const projection of projections) {
+            const context = this.createContext(this.adapter, projection.table);
+            const start = await this.getCheckpoint(projection.name);
+            const { processed, position } = await this.catchUp(projection, context, start, true);
+            results.push({ projection: projection.name, processed, position });
+        }
+
+        return results;
+    }
+
+    /**
+     * Rebuild a projection from the first event into a fresh table, then swap it in
+     * @description The live table keeps serving reads until the swap. Events appended during
+     * the rebuild are picked up by the next `run`, since the checkpoint is reset to the rebuilt position.
+     * If setup or catch-up fails, the rebuild table is dropped and the live table is left untouched.
+     */
+    public async rebuild(name: string): Promise<ProjectionRunResult> {
+        const projection = this.getProjection(name);
+        if (!projection.setup) {
+            throw new BusinessRuleError(`Projection '${name}' cannot be rebuilt without a setup function`, 'PROJECTION_SETUP_REQUIRED', {
+                projection: name,
+            });
+        }
+
+        // A unique name keeps index names derived from `tableName` clear of those on the live table
+        const rebuildContext = this.createContext(this.adapter, `${projection.table}_rebuild_${Date.now()}`);
+        let processed: number;
+        let position: number;
+        try {
+            await projection.setup(rebuildContext);
+            ({ processed, position } = await this.catchUp(projection, rebuildContext, 0, false));
+        } catch (error) {
+            await this.adapter.execute(`DROP TABLE IF EXISTS ${rebuildContext.table}`).catch(() => undefined);
+            throw error;
+        }
+        const live = this.compiler.quoteIdentifier(projection.table);
+
+        await this.adapter.transaction(async (tx) => {
+            await tx.execute(`DROP TABLE IF EXISTS ${live}`);
+            await tx.execute(`ALTER TABLE ${rebuildContext.table} RENAME TO ${live}`);
+            await this.saveCheckpoint(tx, projection.name, position);
+        });
+
+        return { projection: name, processed, position };
+    }
+
+    /**
+     * Position of the last event applied to a projection (0 when it has not run)
+     */
+    public async getCheckpoint(name: string): Promise<number> {
+        const rows = await this.adapter.query<{ position: number }>(
+            `SELECT ${this.compiler.quoteIdentifier('position')} FROM ${this.checkpointTable} WHERE ${this.compiler.quoteIdentifier('name')} = ${this.compiler.placeholder(1)}`,
+            [name]
+        );
+        return Number(rows[0]?.position ?? 0);
+    }
+
+    /**
+     * Apply events after a position until the store is exhausted
+     * @param persist - Store the checkpoint with each event (false while rebuilding)
+     */
+    private async catchUp(
+        projection: Projection,
+        context: ProjectionContext,
+        start: number,
+        persist: boolean
+    ): Promise<{ processed: number; position: number }> {
+        let position = start;
+        let processed = 0;
+
+        for (;;) {
+            const events = await this.store.readAll(position, this.batchSize);
+
+            for (const event of events) {
+                const handler = this.getHandler(projection, event);
+                if (handler) {
+                    if (persist) {
+                        await this.adapter.transaction(async (tx) => {
+                            await handler(event, { ...context, db: tx });
+                            await this.saveCheckpoint(tx, projection.name, event.position);
+                        });
+                    } else {
+                        await handler(event, context);
+                    }
+                    processed++;
+                }
+                position = event.position;
+            }
+
+            if (persist && events.length > 0) {
+                // Advance past trailing events this projection does not handle
+                await this.adapter.transaction(tx => this.saveCheckpoint(tx, projection.name, position));
+            }
+            if (events.length < this.batchSize) {
+                return { processed, position };
+            }
+        }
+    }
+
+    private getHandler(projection: Projection, event: StoredEvent) {
+        return projection.handlers[event.type] || projection.handlers['*'];
+    }
+
+    private async saveCheckpoint(db: DatabaseAdapter, name: string, position: number): Promise<void> {
+        const columns = ['name', 'position', 'updatedAt'];
+
+        await db.execute(
+            `DELETE FROM ${this.checkpointTable} WHERE ${this.compiler.quoteIdentifier('name')} = ${this.compiler.placeholder(1)}`,
+            [name]
+        );
+        await db.execute(
+            `INSERT INTO ${this.checkpointTable} (${columns.map(column => this.compiler.quoteIdentifier(column)).join(', ')}) VALUES (${columns.map((_, index) => this.compiler.placeholder(index + 1)).join(', ')})`,
+            [name, position, new Date().toISOString()]
+        );
+    }
+
+    private createContext(db: DatabaseAdapter, tableName: string): ProjectionContext {
+        return {
+            db,
+            table: this.compiler.quoteIdentifier(tableName),
+            tableName,
+        };
+    }
+
+    private getProjection(name: string): Projection {
+        const projection = this.projections.get(name);
+        if (!projection) {
+            throw new NotFoundError('Projection', name);
+        }
+        return projection;
+    }
+}
+
+/**
+ * Create the migration that provisions the projection checkpoint table
+ * @param options - Table name and SQL dialect
+ * @returns Migration for MigrationManager
+ */
+export function createProjectionCheckpointMigration(options: { tableName?: string; dialect?: SqlDialect } = {}): Migration {
+    const tableName = options.tableName || DEFAULT_CHECKPOINT_TABLE;
+    const compiler = new SqlCompiler(options.dialect || 'sqlite');
+    const table = compiler.quoteIdentifier(tableName);
+    const column = (name: string) => compiler.quoteIdentifier(name);
+
+    return createMigration(`create${tableName}`, `Create projection checkpoint table ${tableName}`)
+        .setTimestamp(new Date(0))
+        .addUp(`CREATE TABLE IF NOT EXISTS ${table} (
+        ${column('name')} VARCHAR(128) PRIMARY KEY,
+        ${column('position')} BIGINT NOT NULL,
+        ${column('updatedAt')} VARCHAR(32) NOT NULL
+      )`)
+        .addDown(`DROP TABLE ${table}`)
+        .build();
+}
@@ -0,0 +1,122 @@
+import type { EntityId } from '../types.js';
+import type {
+    DomainEvent,
+    EventSourcedAggregate,
+    EventSourcedRepositoryOptions,
+    IEventStore,
+    StoredEvent,
+} from './types.js';
+import { NotFoundError } from '../errors/base.js';
+
+/**
+ * Repository persisting aggregates as event streams
+ * @description Aggregates are rehydrated from the latest snapshot (when available) plus the
+ * events after it. Saving appends uncommitted events with the loaded stream version as the
+ * expected version, so concurrent writers receive ConcurrencyError.
+ */
+export class EventSourcedRepository<TAggregate extends EventSourcedAggregate> {
+    protected readonly store: IEventStore;
+    protected readonly factory: (id: EntityId) => TAggregate;
+    protected readonly options: EventSourcedRepositoryOptions;
+    private readonly streamVersions = new WeakMap<TAggregate, number>();
+
+    constructor(
+        store: IEventStore,
+        factory: (id: EntityId) => TAggregate,
+        options: EventSourcedRepositoryOptions = {}
+    ) {
+        this.store = store;
+        this.factory = factory;
+        this.options = options;
+    }
+
+    /**
+     * Rehydrate an aggregate from its stream
+     * @returns Aggregate, or null when the stream does not exist
+     */
+    async findById(id: EntityId): Promise<TAggregate | null> {
+        const aggregate = this.factory(id);
+        const snapshot = aggregate.restoreSnapshot ? await this.store.getSnapshot(id) : null;
+        const events = await this.store.readStream(id, { fromVersion: (snapshot?.version ?? 0) + 1 });
+
+        if (!snapshot && events.length === 0) {
+            return null;
+        }
+
+        if (snapshot) {
+            aggregate.restoreSnapshot?.(snapshot.state, snapshot.version);
+        }
+        aggregate.loadFromHistory(events);
+
+        this.streamVersions.set(aggregate, events.at(-1)?.version ?? snapshot?.version ?? 0);
+        return aggregate;
+    }
+
+    /**
+     * Rehydrate an aggregate, throwing NotFoundError when the stream does not exist
+     */
+    async getById(id: EntityId): Promise<TAggregate> {
+        const aggregate = await this.findById(id);
+        if (!aggregate) {
+            throw new NotFoundError(this.getEntityType(), id);
+        }
+        return aggregate;
+    }
+
+    /**
+     * Append the aggregate's uncommitted events and publish them
+     * @returns The stored events
+     */
+    async save(aggregate: TAggregate): Promise<StoredEvent[]> {
+        const events = aggregate.getUncommittedEvents() as DomainEvent[];
+        if (events.length === 0) {
+            return [];
+        }
+
+        const expectedVersion = this.streamVersions.get(aggregate) ?? 0;
+        const stored = await this.store.append(aggregate.id, events, expectedVersion);
+        const version = stored.at(-1)?.version ?? expectedVersion;
+
+        this.streamVersions.set(aggregate, version);
+        aggregate.version = version;
+        aggregate.markEventsAsCommitted();
+
+        await this.maybeSnapshot(aggregate, expectedVersion, version);
+        if (this.options.eventBus) {
+            await this.options.eventBus.publish(stored);
+        }
+
+        return stored;
+    }
+
+    /**
+     * Check whether a stream exists for the aggregate
+     */
+    async exists(id: EntityId): Promise<boolean> {
+        return (await this.store.getStreamVersion(id)) > 0;
+    }
+
+    /**
+     * Entity type name (defaults to the class name without the "Repository" suffix)
+     */
+    protected getEntityType(): string {
+        return this.constructor.name.replace(/Repository$/, '') || 'Aggregate';
+    }
+
+    /**
+     * Save a snapshot when the appended events cross a `snapshotEvery` boundary
+     */
+    private async maybeSnapshot(aggregate: TAggregate, fromVersion: number, toVersion: number): Promise<void> {
+        const every = this.options.snapshotEvery;
+        if (!every || !aggregate.toSnapshot || Math.floor(fromVersion / every) === Math.floor(toVersion / every)) {
+            return;
+        }
+
+        await this.store.saveSnapshot({
+            streamId: aggregate.id,
+            version: toVersion,
+            state: aggregate.toSnapshot(),
+            createdAt: new Date(),
+        });
+    }
+}
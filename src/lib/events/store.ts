@@ -0,0 +1,328 @@
+/**
+ * Event stores
+ * @description In-memory and SQL-backed append-only event streams with snapshots
+ */
+
+import type { EntityId, FilterCriteria, TenantId, TraceId, UserId } from '../types.js';
+import type { DatabaseAdapter, Migration } from '../database/types.js';
+import type { SqlDialect } from '../query/types.js';
+import type { DomainEvent, IEventStore, Snapshot, StoredEvent, StreamReadOptions } from './types.js';
+import { createMigration } from '../database/migrations.js';
+import { ConcurrencyError } from '../errors/domain.js';
+import { SqlCompiler } from '../query/compiler.js';
+import { createFilter } from '../query/filters.js';
+
+const DEFAULT_EVENTS_TABLE = '_event_store';
+const DEFAULT_SNAPSHOTS_TABLE = '_event_snapshots';
+
+/**
+ * Event store table row
+ */
+interface EventRow {
+    position: number;
+    id: string;
+    streamId: string;
+    streamType: string | null;
+    version: number;
+    type: string;
+    payload: string | null;
+    metadata: string | null;
+    traceId: string;
+    tenantId: string | null;
+    userId: string | null;
+    occurredAt: string;
+}
+
+/**
+ * Snapshot table row
+ */
+interface SnapshotRow {
+    streamId: string;
+    version: number;
+    state: string;
+    createdAt: string;
+}
+
+const createConcurrencyError = (streamId: EntityId, expectedVersion: number, actualVersion: number): ConcurrencyError => {
+    return new ConcurrencyError(
+        `Stream '${streamId}' is at version ${actualVersion}, expected ${expectedVersion}`,
+        expectedVersion,
+        actualVersion
+    );
+};
+
+/**
+ * In-memory event store for tests and local development
+ */
+export class InMemoryEventStore implements IEventStore {
+    private events: StoredEvent[] = [];
+    private readonly snapshots: Map<EntityId, Snapshot> = new Map();
+
+    public async append(streamId: EntityId, events: DomainEvent[], expectedVersion: number): Promise<StoredEvent[]> {
+        const actualVersion = await this.getStreamVersion(streamId);
+        if (actualVersion !== expectedVersion) {
+            throw createConcurrencyError(streamId, expectedVersion, actualVersion);
+        }
+
+        const stored = events.map((event, index): StoredEvent => ({
+            ...structuredClone(event),
+            aggregateId: streamId,
+            version: expectedVersion + index + 1,
+            position: this.events.length + index + 1,
+        }));
+
+        this.events.push(...stored);
+        return structuredClone(stored);
+    }
+
+    public async readStream(streamId: EntityId, options: StreamReadOptions = {}): Promise<StoredEvent[]> {
+        return structuredClone(this.events.filter(event =>
+            event.aggregateId === streamId &&
+            event.version >= (options.fromVersion ?? 1) &&
+            event.version <= (options.toVersion ?? Number.MAX_SAFE_INTEGER)
+        ));
+    }
+
+    public async readAll(afterPosition = 0, limit?: number): Promise<StoredEvent[]> {
+        const events = this.events.filter(event => event.position > afterPosition);
+        return structuredClone(limit ? events.slice(0, limit) : events);
+    }
+
+    public async getStreamVersion(streamId: EntityId): Promise<number> {
+        return this.events.reduce((version, event) => event.aggregateId === streamId ? event.version : version, 0);
+    }
+
+    public async saveSnapshot(snapshot: Snapshot): Promise<void> {
+        this.snapshots.set(snapshot.streamId, structuredClone(snapshot));
+    }
+
+    public async getSnapshot(streamId: EntityId): Promise<Snapshot | null> {
+        const snapshot = this.snapshots.get(streamId);
+        return snapshot ? structuredClone(snapshot) : null;
+    }
+
+    /**
+     * Remove all events and snapshots
+     */
+    public clear(): void {
+        this.events = [];
+        this.snapshots.clear();
+    }
+}
+
+/**
+ * SQL event store writing through a DatabaseAdapter
+ * @description A unique (streamId, version) index turns concurrent appends into ConcurrencyError.
+ */
+export class SqlEventStore implements IEventStore {
+    private readonly adapter: DatabaseAdapter;
+    private readonly compiler: SqlCompiler;
+    private readonly eventsTable: string;
+    private readonly snapshotsTable: string;
+
+    constructor(adapter: DatabaseAdapter, options: { eventsTable?: string; snapshotsTable?: string } = {}) {
+        this.adapter = adapter;
+        this.compiler = new SqlCompiler(adapter.type as SqlDialect);
+        this.eventsTable = this.compiler.quoteIdentifier(options.eventsTable || DEFAULT_EVENTS_TABLE);
+        this.snapshotsTable = this.compiler.quoteIdentifier(options.snapshotsTable || DEFAULT_SNAPSHOTS_TABLE);
+    }
+
+    public async append(streamId: EntityId, events: DomainEvent[], expectedVersion: number): Promise<StoredEvent[]> {
+        if (events.length === 0) {
+            return [];
+        }
+
+        const columns = ['id', 'streamId', 'streamType', 'version', 'type', 'payload', 'metadata', 'traceId', 'tenantId', 'userId', 'occurredAt'];
+        const statement = `INSERT INTO ${this.eventsTable} (${columns.map(column => this.compiler.quoteIdentifier(column)).join(', ')}) VALUES (${columns.map((_, index) => this.compiler.placeholder(index + 1)).join(', ')})`;
+
+        try {
+            await this.adapter.transaction(async (tx) => {
+                const actualVersion = await this.readVersion(tx, streamId);
+                if (actualVersion !== expectedVersion) {
+                    throw createConcurrencyError(streamId, expectedVersion, actualVersion);
+                }
+
+                for (const [index, event] of events.entries()) {
+                    await tx.execute(statement, [
+                        event.id,
+                        streamId,
+                        event.aggregateType ?? null,
+                        expectedVersion + index + 1,
+                        event.type,
+                        event.payload === undefined ? null : JSON.stringify(event.payload),
+                        event.metadata ? JSON.stringify(event.metadata) : null,
+                        event.traceId,
+                        event.tenantId ?? null,
+                        event.userId ?? null,
+                        event.occurredAt.toISOString(),
+                    ]);
+                }
+            });
+        } catch (error) {
+            if (error instanceof ConcurrencyError) {
+                throw error;
+            }
+            // Another writer appended the same version between our read and insert
+            if (error instanceof Error && /unique|duplicate/i.test(error.message)) {
+                throw createConcurrencyError(streamId, expectedVersion, await this.getStreamVersion(streamId));
+            }
+            throw error;
+        }
+
+        return this.readStream(streamId, {
+            fromVersion: expectedVersion + 1,
+            toVersion: expectedVersion + events.length,
+        });
+    }
+
+    public async readStream(streamId: EntityId, options: StreamReadOptions = {}): Promise<StoredEvent[]> {
+        const filter = createFilter().eq('streamId', streamId);
+        if (options.fromVersion !== undefined) filter.gte('version', options.fromVersion);
+        if (options.toVersion !== undefined) filter.lte('version', options.toVersion);
+
+        return this.select(filter.build(), 'version');
+    }
+
+    public async readAll(afterPosition = 0, limit?: number): Promise<StoredEvent[]> {
+        return this.select(createFilter().gt('position', afterPosition).build(), 'position', limit);
+    }
+
+    public async getStreamVersion(streamId: EntityId): Promise<number> {
+        return this.readVersion(this.adapter, streamId);
+    }
+
+    public async saveSnapshot(snapshot: Snapshot): Promise<void> {
+        const streamColumn = this.compiler.quoteIdentifier('streamId');
+        const columns = ['streamId', 'version', 'state', 'createdAt'];
+
+        await this.adapter.transaction(async (tx) => {
+            await tx.execute(
+                `DELETE FROM ${this.snapshotsTable} WHERE ${streamColumn} = ${this.compiler.placeholder(1)}`,
+                [snapshot.streamId]
+            );
+            await tx.execute(
+                `INSERT INTO ${this.snapshotsTable} (${columns.map(column => this.compiler.quoteIdentifier(column)).join(', ')}) VALUES (${columns.map((_, index) => this.compiler.placeholder(index + 1)).join(', ')})`,
+                [snapshot.streamId, snapshot.version, JSON.stringify(snapshot.state), snapshot.createdAt.toISOString()]
+            );
+        });
+    }
+
+    public async getSnapshot(streamId: EntityId): Promise<Snapshot | null> {
+        const rows = await this.adapter.query<SnapshotRow>(
+            `SELECT * FROM ${this.snapshotsTable} WHERE ${this.compiler.quoteIdentifier('streamId')} = ${this.compiler.placeholder(1)}`,
+            [streamId]
+        );
+        if (rows.length === 0) {
+            return null;
+        }
+
+        return {
+            streamId: rows[0].streamId as EntityId,
+            version: Number(rows[0].version),
+            state: JSON.parse(rows[0].state),
+            createdAt: new Date(rows[0].createdAt),
+        };
+    }
+
+    private async readVersion(adapter: DatabaseAdapter, streamId: EntityId): Promise<number> {
+        const rows = await adapter.query<{ version: number | null }>(
+            `SELECT MAX(${this.compiler.quoteIdentifier('version')}) AS ${this.compiler.quoteIdentifier('version')} FROM ${this.eventsTable} WHERE ${this.compiler.quoteIdentifier('streamId')} = ${this.compiler.placeholder(1)}`,
+            [streamId]
+        );
+        return Number(rows[0]?.version ?? 0);
+    }
+
+    private async select(filter: FilterCriteria, orderBy: string, limit?: number): Promise<StoredEvent[]> {
+        const compiled = this.compiler.compile({
+            filter,
+            sort: [{ field: orderBy, direction: 'ASC' }],
+            limit,
+        });
+        const rows = await this.adapter.query<EventRow>(`SELECT * FROM ${this.eventsTable} ${compiled.sql}`, compiled.params);
+        return rows.map(row => this.toStoredEvent(row));
+    }
+
+    private toStoredEvent(row: EventRow): StoredEvent {
+        const event: StoredEvent = {
+            id: row.id as EntityId,
+            type: row.type,
+            payload: row.payload === null ? undefined : JSON.parse(row.payload),
+            occurredAt: new Date(row.occurredAt),
+            traceId: row.traceId as TraceId,
+            aggregateId: row.streamId as EntityId,
+            version: Number(row.version),
+            position: Number(row.position),
+        };
+
+        if (row.streamType) {
+            event.aggregateType = row.streamType;
+        }
+        if (row.tenantId) {
+            event.tenantId = row.tenantId as TenantId;
+        }
+        if (row.userId) {
+            event.userId = row.userId as UserId;
+        }
+        if (row.metadata) {
+            event.metadata = JSON.parse(row.metadata);
+        }
+
+        return event;
+    }
+}
+
+/**
+ * Create the migration that provisions the event store and snapshot tables
+ * @param options - Table names and SQL dialect
+ * @returns Migration for MigrationManager
+ */
+export function createEventStoreMigration(
+    options: { eventsTable?: string; snapshotsTable?: string; dialect?: SqlDialect } = {}
+): Migration {
+    const eventsTableName = options.eventsTable || DEFAULT_EVENTS_TABLE;
+    const dialect = options.dialect || 'sqlite';
+    const compiler = new SqlCompiler(dialect);
+    const eventsTable = compiler.quoteIdentifier(eventsTableName);
+    const snapshotsTable = compiler.quoteIdentifier(options.snapshotsTable || DEFAULT_SNAPSHOTS_TABLE);
+    const column = (name: string) => compiler.quoteIdentifier(name);
+    const indexName = column(`idx${eventsTableName}_stream`);
+    const indexColumns = `(${column('streamId')}, ${column('version')})`;
+    const positionColumn = {
+        sqlite: 'INTEGER PRIMARY KEY AUTOINCREMENT',
+        postgres: 'BIGSERIAL PRIMARY KEY',
+        mysql: 'BIGINT AUTO_INCREMENT PRIMARY KEY',
+    }[dialect];
+
+    // MySQL has no CREATE INDEX IF NOT EXISTS, so the index is declared with the table there
+    const migration = createMigration(`create${eventsTableName}`, `Create event store table ${eventsTableName}`)
+        .setTimestamp(new Date(0))
+        .addUp(`CREATE TABLE IF NOT EXISTS ${eventsTable} (
+        ${column('position')} ${positionColumn},
+        ${column('id')} VARCHAR(64) NOT NULL,
+        ${column('streamId')} VARCHAR(64) NOT NULL,
+        ${column('streamType')} VARCHAR(128),
+        ${column('version')} INTEGER NOT NULL,
+        ${column('type')} VARCHAR(128) NOT NULL,
+        ${column('payload')} TEXT,
+        ${column('metadata')} TEXT,
+        ${column('traceId')} VARCHAR(64) NOT NULL,
+        ${column('tenantId')} VARCHAR(64),
+        ${column('userId')} VARCHAR(64),
+        ${column('occurredAt')} VARCHAR(32) NOT NULL${dialect === 'mysql' ? `,
+        UNIQUE INDEX ${indexName} ${indexColumns}` : ''}
+      )`);
+    if (dialect !== 'mysql') {
+        migration.addUp(`CREATE UNIQUE INDEX IF NOT EXISTS ${indexName} ON ${eventsTable} ${indexColumns}`);
+    }
+
+    return migration
+        .addUp(`CREATE TABLE IF NOT EXISTS ${snapshotsTable} (
+        ${column('streamId')} VARCHAR(64) PRIMARY KEY,
+        ${column('version')} INTEGER NOT NULL,
+        ${column('state')} TEXT NOT NULL,
+        ${column('createdAt')} VARCHAR(32) NOT NULL
+      )`)
+        .addDown(`DROP TABLE ${snapshotsTable}`)
+        .addDown(`DROP TABLE ${eventsTable}`)
+        .build();
+}
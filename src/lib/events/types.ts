@@ -0,0 +1,246 @@
+import type { BaseEntity, EntityId, TenantId, TraceId, UserId } from '../types.js';
+import type { IAggregateRoot } from '../base/types.js';
+import type { DatabaseAdapter } from '../database/types.js';
+
+/**
+ * Domain event envelope
+ */
+export interface DomainEvent<TType extends string = string, TPayload = unknown> {
+    id: EntityId;
+    type: TType;
+    payload: TPayload;
+    occurredAt: Date;
+    traceId: TraceId;
+    aggregateId?: EntityId;
+    aggregateType?: string;
+    version?: number;
+    tenantId?: TenantId;
+    userId?: UserId;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Map of event type to payload type
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * Event of a given type within an event map
+ */
+export type EventOf<TEvents extends EventMap, TType extends keyof TEvents & string> = DomainEvent<TType, TEvents[TType]>;
+
+/**
+ * Any event within an event map
+ */
+export type AnyEventOf<TEvents extends EventMap> = {
+    [TType in keyof TEvents & string]: EventOf<TEvents, TType>;
+}[keyof TEvents & string];
+
+/**
+ * Event handler
+ */
+export type EventHandler<TEvent extends DomainEvent = DomainEvent> = (event: TEvent) => void | Promise<void>;
+
+/**
+ * Callback that removes a subscription
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Reports a handler failure without interrupting other handlers
+ */
+export type EventErrorHandler = (error: unknown, event: DomainEvent) => void | Promise<void>;
+
+/**
+ * Event bus options
+ */
+export interface EventBusOptions {
+    onError?: EventErrorHandler;
+}
+
+/**
+ * Publish/subscribe event bus
+ */
+export interface IEventBus<TEvents extends EventMap = EventMap> {
+    publish(events: AnyEventOf<TEvents> | AnyEventOf<TEvents>[]): Promise<void>;
+    subscribe<TType extends keyof TEvents & string>(type: TType, handler: EventHandler<EventOf<TEvents, TType>>): Unsubscribe;
+    subscribeAll(handler: EventHandler<AnyEventOf<TEvents>>): Unsubscribe;
+}
+
+/**
+ * Entity lifecycle events emitted by BaseService
+ */
+export type EntityEventMap<TEntity extends BaseEntity = BaseEntity> = {
+    'entity.created': { entityType: string; entity: TEntity };
+    'entity.updated': { entityType: string; entity: TEntity };
+    'entity.deleted': { entityType: string; id: EntityId };
+};
+
+/**
+ * Outbox message delivery status
+ */
+export type OutboxStatus = 'pending' | 'published' | 'dead_letter';
+
+/**
+ * Outbox message as stored in the outbox table
+ */
+export interface OutboxMessage {
+    id: EntityId;
+    event: DomainEvent;
+    status: OutboxStatus;
+    attempts: number;
+    lastError?: string;
+    createdAt: Date;
+    availableAt: Date;
+    publishedAt?: Date;
+}
+
+/**
+ * Delivers an outbox event to its destination; throwing marks the attempt as failed
+ */
+export type OutboxDispatcher = (event: DomainEvent) => Promise<void>;
+
+/**
+ * Outbox relay options
+ */
+export interface OutboxRelayOptions {
+    /** Messages claimed per drain (default 50) */
+    batchSize?: number;
+    /** Delivery attempts before a message is dead-lettered (default 5) */
+    maxAttempts?: number;
+    /** Immediate attempts per drain before the message is deferred (default 3) */
+    attemptsPerDrain?: number;
+    /** Base backoff delay in milliseconds (default 100) */
+    delay?: number;
+    /** Backoff multiplier (default 2) */
+    backoffFactor?: number;
+    /** Seconds a claimed message stays invisible to other relays (default 60) */
+    leaseSeconds?: number;
+}
+
+/**
+ * Outcome of a relay drain
+ */
+export interface OutboxDrainResult {
+    published: number;
+    failed: number;
+    deadLettered: number;
+}
+
+/**
+ * Event persisted in an event store stream
+ */
+export type StoredEvent<TEvent extends DomainEvent = DomainEvent> = TEvent & {
+    aggregateId: EntityId;
+    /** Version of the stream after this event (1-based) */
+    version: number;
+    /** Global append order across all streams */
+    position: number;
+};
+
+/**
+ * Aggregate state captured at a stream version
+ */
+export interface Snapshot<TState = Record<string, unknown>> {
+    streamId: EntityId;
+    version: number;
+    state: TState;
+    createdAt: Date;
+}
+
+/**
+ * Stream read range (inclusive)
+ */
+export interface StreamReadOptions {
+    fromVersion?: number;
+    toVersion?: number;
+}
+
+/**
+ * Append-only event storage with per-stream optimistic concurrency
+ */
+export interface IEventStore {
+    /**
+     * Append events to a stream
+     * @param expectedVersion - Current stream version the events were derived from (0 for a new stream)
+     * @throws ConcurrencyError when the stream has moved past `expectedVersion`
+     */
+    append(streamId: EntityId, events: DomainEvent[], expectedVersion: number): Promise<StoredEvent[]>;
+    /** Read a stream in version order */
+    readStream(streamId: EntityId, options?: StreamReadOptions): Promise<StoredEvent[]>;
+    /** Read all streams in global order after a position */
+    readAll(afterPosition?: number, limit?: number): Promise<StoredEvent[]>;
+    /** Current stream version (0 when the stream does not exist) */
+    getStreamVersion(streamId: EntityId): Promise<number>;
+    saveSnapshot(snapshot: Snapshot): Promise<void>;
+    getSnapshot(streamId: EntityId): Promise<Snapshot | null>;
+}
+
+/**
+ * Aggregate that can be rebuilt from its event history
+ */
+export interface EventSourcedAggregate extends IAggregateRoot<BaseEntity>, BaseEntity {
+    loadFromHistory(events: DomainEvent[]): void;
+    toSnapshot?(): Record<string, unknown>;
+    restoreSnapshot?(state: Record<string, unknown>, version: number): void;
+}
+
+/**
+ * Event-sourced repository options
+ */
+export interface EventSourcedRepositoryOptions {
+    /** Save a snapshot every N events (disabled when unset) */
+    snapshotEvery?: number;
+    /** Bus receiving events after they are appended */
+    eventBus?: IEventBus;
+}
+
+/**
+ * Database access handed to projection handlers
+ */
+export interface ProjectionContext {
+    /** Adapter (transaction) to write the read model with */
+    db: DatabaseAdapter;
+    /** Quoted read model table identifier (a fresh table while rebuilding) */
+    table: string;
+    /** Unquoted read model table name, e.g. for deriving index names */
+    tableName: string;
+}
+
+/**
+ * Projection handler for one event type
+ */
+export type ProjectionHandler<TEvent extends StoredEvent = StoredEvent> = (event: TEvent, context: ProjectionContext) => Promise<void>;
+
+/**
+ * Read model projection
+ */
+export interface Projection {
+    /** Unique name, used as the checkpoint key */
+    name: string;
+    /** Read model table the handlers write to */
+    table: string;
+    /** Handlers by event type; `*` receives every event */
+    handlers: Record<string, ProjectionHandler>;
+    /** Create the read model table (and its indexes) named in the context; required for rebuilds */
+    setup?(context: ProjectionContext): Promise<void>;
+}
+
+/**
+ * Projection runner options
+ */
+export interface ProjectionRunnerOptions {
+    /** Checkpoint table name (default `_projection_checkpoints`) */
+    checkpointTable?: string;
+    /** Events read per batch (default 100) */
+    batchSize?: number;
+}
+
+/**
+ * Outcome of running a projection
+ */
+export interface ProjectionRunResult {
+    projection: string;
+    processed: number;
+    position: number;
+}
@@ -0,0 +1,277 @@
+import type { FilterCriteria, FilterCondition, SortCriteria, ListOptions, PaginationOptions } from '../types.js';
+import type { CompiledSql, SqlCompilerOptions, SqlDialect } from './types.js';
+import { ValidationError } from '../errors/base.js';
+import { calculateOffset } from '../utils/helpers.js';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+const escapeLike = (value: unknown): string => {
+    return String(value).replace(/[\\%_]/g, match => `\\${match}`);
+};
+
+/**
+ * Compiles filter, sort and pagination criteria into parameterized SQL fragments
+ * @description Values are always bound as parameters and field names are validated
+ * and quoted, so user-supplied criteria cannot inject SQL
+ */
+export class SqlCompiler {
+    public readonly dialect: SqlDialect;
+    private readonly options: SqlCompilerOptions;
+
+    constructor(dialect: SqlDialect, options: SqlCompilerOptions = {}) {
+        this.dialect = dialect;
+        this.options = options;
+    }
+
+    /**
+     * Quote an identifier for the current dialect
+     * @param name - Column or table name (optionally `table.column`)
+     * @returns Quoted identifier
+     */
+    public quoteIdentifier(name: string): string {
+        if (!IDENTIFIER_PATTERN.test(name)) {
+            throw new ValidationError(`Invalid identifier '${name}'`, [{
+                field: name,
+                message: 'Identifiers may only contain letters, digits and underscores',
+                code: 'INVALID_FIELD',
+            }]);
+        }
+
+        const quote = this.dialect === 'mysql' ? '`' : '"';
+        return name.split('.').map(part => `${quote}${part}${quote}`).join('.');
+    }
+
+    /**
+     * Compile filter criteria into a WHERE clause
+     * @param criteria - Filter criteria
+     * @param offset - Number of parameters already bound before this fragment
+     * @returns WHERE clause, or an empty fragment when there is nothing to filter
+     */
+    public compileWhere(criteria?: FilterCriteria, offset = 0): CompiledSql {
+        const params: unknown[] = [];
+        const expression = criteria ? this.compileCriteria(criteria, params, offset) : '';
+
+        return {
+            sql: expression ? `WHERE ${expression}` : '',
+            params,
+        };
+    }
+
+    /**
+     * Compile sort criteria into an ORDER BY clause
+     * @param sort - Sort criteria
+     * @returns ORDER BY clause, or an empty fragment when unsorted
+     */
+    public compileOrderBy(sort?: SortCriteria[]): CompiledSql {
+        if (!sort || sort.length === 0) {
+            return { sql: '', params: [] };
+        }
+
+        const terms = sort.flatMap(({ field, direction, nulls }) => {
+            if (direction !== 'ASC' && direction !== 'DESC') {
+                throw new ValidationError(`Invalid sort direction '${direction}'`, [{
+                    field,
+                    message: 'Sort direction must be ASC or DESC',
+                    code: 'INVALID_SORT',
+                    value: direction,
+                }]);
+            }
+
+            const column = this.column(field);
+            if (!nulls) {
+                return [`${column} ${direction}`];
+            }
+            if (nulls !== 'FIRST' && nulls !== 'LAST') {
+                throw new ValidationError(`Invalid nulls ordering '${nulls}'`, [{
+                    field,
+                    message: 'Nulls ordering must be FIRST or LAST',
+                    code: 'INVALID_SORT',
+                    value: nulls,
+                }]);
+            }
+
+            // MySQL has no NULLS FIRST/LAST, so order by the null check first
+            if (this.dialect === 'mysql') {
+                return [`${column} IS NULL ${nulls === 'FIRST' ? 'DESC' : 'ASC'}`, `${column} ${direction}`];
+            }
+            return [`${column} ${direction} NULLS ${nulls}`];
+        });
+
+        return { sql: `ORDER BY ${terms.join(', ')}`, params: [] };
+    }
+
+    /**
+     * Compile pagination options into a LIMIT/OFFSET clause
+     * @param pagination - Pagination options
+     * @param offset - Number of parameters already bound before this fragment
+     * @returns LIMIT clause, or an empty fragment when no limit is set
+     */
+    public compilePagination(pagination: PaginationOptions, offset = 0): CompiledSql {
+        if (pagination.limit === undefined) {
+            return { sql: '', params: [] };
+        }
+
+        const limit = this.assertCount('limit', pagination.limit);
+        if (this.options.maxLimit && limit > this.options.maxLimit) {
+            throw new ValidationError(`Limit cannot exceed ${this.options.maxLimit}`, [{
+                field: 'limit',
+                message: `Limit cannot exceed ${this.options.maxLimit}`,
+                code: 'INVALID_PAGINATION',
+                value: limit,
+            }]);
+        }
+
+        const skip = pagination.offset !== undefined
+            ? this.assertCount('offset', pagination.offset)
+            : calculateOffset(this.assertCount('page', pagination.page || 1), limit);
+
+        const params = [limit, skip];
+        return {
+            sql: `LIMIT ${this.placeholder(offset + 1)} OFFSET ${this.placeholder(offset + 2)}`,
+            params,
+        };
+    }
+
+    /**
+     * Compile filter, sort and pagination into one trailing SQL fragment
+     * @param options - List options
+     * @param offset - Number of parameters already bound before this fragment
+     * @returns Combined WHERE/ORDER BY/LIMIT fragment
+     */
+    public compile(options: ListOptions, offset = 0): CompiledSql {
+        const where = this.compileWhere(options.filter, offset);
+        const orderBy = this.compileOrderBy(options.sort);
+        const pagination = this.compilePagination(options, offset + where.params.length);
+
+        return {
+            sql: [where.sql, orderBy.sql, pagination.sql].filter(Boolean).join(' '),
+            params: [...where.params, ...pagination.params],
+        };
+    }
+
+    /**
+     * Resolve and quote the column for a filterable field
+     */
+    public column(field: string): string {
+        const { columns } = this.options;
+        if (columns) {
+            if (!Object.prototype.hasOwnProperty.call(columns, field)) {
+                throw new ValidationError(`Unknown field '${field}'`, [{
+                    field,
+                    message: 'Field cannot be filtered or sorted',
+                    code: 'INVALID_FIELD',
+                }]);
+            }
+            return this.quoteIdentifier(columns[field]);
+        }
+        return this.quoteIdentifier(field);
+    }
+
+    /**
+     * Positional parameter placeholder for the dialect
+     * @param index - One-based parameter index
+     */
+    public placeholder(index: number): string {
+        return this.dialect === 'postgres' ? `$${index}` : '?';
+    }
+
+    private compileCriteria(criteria: FilterCriteria, params: unknown[], offset: number): string {
+        const parts = [
+            ...(criteria.conditions || []).map(condition => this.compileCondition(condition, params, offset)),
+            ...(criteria.groups || [])
+                .map(group => this.compileCriteria(group, params, offset))
+                .filter(Boolean)
+                .map(group => `(${group})`),
+        ];
+
+        const expression = parts.join(criteria.logic === 'OR' ? ' OR ' : ' AND ');
+        return criteria.not && expression ? `NOT (${expression})` : expression;
+    }
+
+    private compileCondition(condition: FilterCondition, params: unknown[], offset: number): string {
+        const column = this.column(condition.field);
+        const { value, values = [] } = condition;
+        const bind = (param: unknown): string => {
+            params.push(param);
+            return this.placeholder(offset + params.length);
+        };
+        const escape = this.dialect === 'mysql' ? `'\\\\'` : `'\\'`;
+
+        switch (condition.operator) {
+            case 'eq':
+                return value === null ? `${column} IS NULL` : `${column} = ${bind(value)}`;
+            case 'ne':
+                return value === null ? `${column} IS NOT NULL` : `${column} <> ${bind(value)}`;
+            case 'gt':
+                return `${column} > ${bind(value)}`;
+            case 'gte':
+                return `${column} >= ${bind(value)}`;
+            case 'lt':
+                return `${column} < ${bind(value)}`;
+            case 'lte':
+                return `${column} <= ${bind(value)}`;
+            case 'like':
+                return `${column} LIKE ${bind(String(value))}`;
+            case 'ilike':
+                return this.dialect === 'postgres'
+                    ? `${column} ILIKE ${bind(String(value))}`
+                    : `LOWER(${column}) LIKE LOWER(${bind(String(value))})`;
+            case 'startsWith':
+                return `${column} LIKE ${bind(`${escapeLike(value)}%`)} ESCAPE ${escape}`;
+            case 'endsWith':
+                return `${column} LIKE ${bind(`%${escapeLike(value)}`)} ESCAPE ${escape}`;
+            case 'contains':
+                return `${column} LIKE ${bind(`%${escapeLike(value)}%`)} ESCAPE ${escape}`;
+            case 'in':
+                return values.length === 0 ? '1 = 0' : `${column} IN (${values.map(bind).join(', ')})`;
+            case 'notIn':
+                return values.length === 0 ? '1 = 1' : `${column} NOT IN (${values.map(bind).join(', ')})`;
+            case 'isNull':
+                return `${column} IS NULL`;
+            case 'isNotNull':
+                return `${column} IS NOT NULL`;
+            case 'between':
+                if (values.length !== 2) {
+                    throw new ValidationError(`Operator 'between' requires exactly two values`, [{
+                        field: condition.field,
+                        message: 'Expected [min, max] in values',
+                        code: 'INVALID_FILTER',
+                        value: values,
+                    }]);
+                }
+                return `${column} BETWEEN ${bind(values[0])} AND ${bind(values[1])}`;
+            default:
+                throw new ValidationError(`Unsupported filter operator '${condition.operator}'`, [{
+                    field: condition.field,
+                    message: 'Unsupported filter operator',
+                    code: 'INVALID_FILTER',
+                    value: condition.operator,
+                }]);
+        }
+    }
+
+    private assertCount(field: string, value: number): number {
+        if (!Number.isInteger(value) || value < 0) {
+            throw new ValidationError(`Invalid ${field} '${value}'`, [{
+                field,
+                message: `${field} must be a non-negative integer`,
+                code: 'INVALID_PAGINATION',
+                value,
+            }]);
+        }
+        return value;
+    }
+}
+
+/**
+ * Create a SQL compiler for a dialect
+ * @param dialect - Target SQL dialect (matches ConnectionConfig.type)
+ * @param options - Compiler options
+ * @returns SQL compiler instance
+ */
+export const createSqlCompiler = (dialect: SqlDialect, options?: SqlCompilerOptions): SqlCompiler => {
+    return new SqlCompiler(dialect, options);
+};
@@ -1,4 +1,6 @@
 export * from './builder.js';
+export * from './compiler.js';
 export * from './filters.js';
+export * from './matcher.js';
 export * from './pagination.js';
 export * from './types.js'; 
\ No newline at end of file
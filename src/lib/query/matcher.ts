@@ -0,0 +1,216 @@
+import type { FilterCriteria, FilterCondition, SortCriteria } from '../types.js';
+import type { SqlDialect } from './types.js';
+import { ValidationError } from '../errors/base.js';
+import { isNullOrUndefined } from '../utils/helpers.js';
+
+/**
+ * Matching options
+ */
+export interface MatchOptions {
+    /**
+     * Dialect whose LIKE semantics are mirrored (default: 'sqlite'). `like`, `startsWith`,
+     * `endsWith` and `contains` ignore ASCII case on SQLite/D1, ignore case on MySQL and are
+     * case-sensitive on Postgres; `ilike` ignores case everywhere (ASCII only on SQLite).
+     */
+    dialect?: SqlDialect;
+}
+
+type CaseRule = 'sensitive' | 'ascii' | 'insensitive';
+
+const foldCase = (value: string, rule: CaseRule): string => {
+    if (rule === 'insensitive') {
+        return value.toLowerCase();
+    }
+    return rule === 'ascii' ? value.replace(/[A-Z]/g, char => char.toLowerCase()) : value;
+};
+
+const likeCaseRule = (dialect: SqlDialect): CaseRule => {
+    if (dialect === 'postgres') {
+        return 'sensitive';
+    }
+    return dialect === 'sqlite' ? 'ascii' : 'insensitive';
+};
+
+/**
+ * Normalize a value for comparison (dates compare by timestamp)
+ */
+const normalize = (value: unknown): unknown => {
+    return value instanceof Date ? value.getTime() : value;
+};
+
+/**
+ * Convert a SQL LIKE pattern into a regular expression
+ */
+const likeToRegExp = (pattern: string): RegExp => {
+    const source = pattern
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.');
+    return new RegExp(`^${source}$`, 's');
+};
+
+/**
+ * Compare two values with SQL ordering semantics (nulls are handled by the caller)
+ */
+export const compareValues = (left: unknown, right: unknown): number => {
+    const a = normalize(left) as string | number;
+    const b = normalize(right) as string | number;
+    if (a < b) return -1;
+    if (a > b) return 1;
+    return 0;
+};
+
+/**
+ * Evaluate a single filter condition against a record
+ */
+export const matchesCondition = (
+    record: Record<string, unknown>,
+    condition: FilterCondition,
+    options: MatchOptions = {}
+): boolean => {
+    const actual = record[condition.field];
+    const { value, values = [] } = condition;
+    const dialect = options.dialect || 'sqlite';
+
+    // Compare strings after folding case the way the dialect's LIKE does
+    const text = (rule: CaseRule, predicate: (actual: string, expected: string) => boolean): boolean => {
+        return typeof actual === 'string' && predicate(foldCase(actual, rule), foldCase(String(value), rule));
+    };
+
+    // Comparisons involving null are UNKNOWN in SQL and never match
+    const compared = (other: unknown, predicate: (result: number) => boolean): boolean => {
+        if (isNullOrUndefined(actual) || isNullOrUndefined(other)) {
+            return false;
+        }
+        return predicate(compareValues(actual, other));
+    };
+
+    switch (condition.operator) {
+        case 'isNull':
+            return isNullOrUndefined(actual);
+        case 'isNotNull':
+            return !isNullOrUndefined(actual);
+        case 'eq':
+            return value === null ? isNullOrUndefined(actual) : compared(value, result => result === 0);
+        case 'ne':
+            return value === null ? !isNullOrUndefined(actual) : compared(value, result => result !== 0);
+        case 'gt':
+            return compared(value, result => result > 0);
+        case 'gte':
+            return compared(value, result => result >= 0);
+        case 'lt':
+            return compared(value, result => result < 0);
+        case 'lte':
+            return compared(value, result => result <= 0);
+        case 'like':
+            return text(likeCaseRule(dialect), (subject, pattern) => likeToRegExp(pattern).test(subject));
+        case 'ilike':
+            return text(dialect === 'sqlite' ? 'ascii' : 'insensitive', (subject, pattern) => likeToRegExp(pattern).test(subject));
+        case 'startsWith':
+            return text(likeCaseRule(dialect), (subject, prefix) => subject.startsWith(prefix));
+        case 'endsWith':
+            return text(likeCaseRule(dialect), (subject, suffix) => subject.endsWith(suffix));
+        case 'contains':
+            return text(likeCaseRule(dialect), (subject, part) => subject.includes(part));
+        case 'in':
+            return values.some(candidate => compared(candidate, result => result === 0));
+        case 'notIn':
+            return !isNullOrUndefined(actual) && !values.some(candidate => compared(candidate, result => result === 0));
+        case 'between':
+            return values.length === 2
+                && compared(values[0], result => result >= 0)
+                && compared(values[1], result => result <= 0);
+        default:
+            throw new ValidationError(`Unsupported filter operator '${condition.operator}'`, [{
+                field: condition.field,
+                message: 'Unsupported filter operator',
+                code: 'INVALID_FILTER',
+                value: condition.operator,
+            }]);
+    }
+};
+
+/**
+ * Evaluate a condition with SQL three-valued logic (null when the comparison is UNKNOWN)
+ */
+const evaluateCondition = (record: Record<string, unknown>, condition: FilterCondition, options: MatchOptions): boolean | null => {
+    const nullCheck = condition.operator === 'isNull'
+        || condition.operator === 'isNotNull'
+        || ((condition.operator === 'eq' || condition.operator === 'ne') && condition.value === null);
+
+    if (!nullCheck && (isNullOrUndefined(record[condition.field]) || condition.value === null)) {
+        return null;
+    }
+    return matchesCondition(record, condition, options);
+};
+
+/**
+ * Evaluate criteria with SQL three-valued logic, so negated groups treat NULLs like SQL NOT
+ */
+const evaluateCriteria = (record: Record<string, unknown>, criteria: FilterCriteria, options: MatchOptions): boolean | null => {
+    const results = [
+        ...(criteria.conditions || []).map(condition => () => evaluateCondition(record, condition, options)),
+        ...(criteria.groups || []).map(group => () => evaluateCriteria(record, group, options)),
+    ];
+
+    if (results.length === 0) {
+        return true;
+    }
+
+    // AND is false on any false and OR is true on any true; otherwise UNKNOWN wins
+    const decisive = criteria.logic !== 'OR' ? false : true;
+    let unknown = false;
+    for (const result of results) {
+        const value = result();
+        if (value === decisive) {
+            return criteria.not ? !decisive : decisive;
+        }
+        unknown ||= value === null;
+    }
+
+    if (unknown) {
+        return null;
+    }
+    return criteria.not ? decisive : !decisive;
+};
+
+/**
+ * Evaluate filter criteria (including nested groups) against a record
+ */
+export const matchesCriteria = (
+    record: Record<string, unknown>,
+    criteria?: FilterCriteria,
+    options: MatchOptions = {}
+): boolean => {
+    return !criteria || evaluateCriteria(record, criteria, options) === true;
+};
+
+/**
+ * Sort records by sort criteria (nulls first ascending, last descending, like SQLite)
+ */
+export const sortRecords = <T extends object>(records: T[], sort: SortCriteria[] = []): T[] => {
+    if (sort.length === 0) {
+        return [...records];
+    }
+
+    return [...records].sort((left, right) => {
+        for (const { field, direction, nulls } of sort) {
+            const a = (left as Record<string, unknown>)[field];
+            const b = (right as Record<string, unknown>)[field];
+            const aNull = isNullOrUndefined(a);
+            const bNull = isNullOrUndefined(b);
+
+            if (aNull || bNull) {
+                if (aNull && bNull) continue;
+                const nullsFirst = nulls ? nulls === 'FIRST' : direction === 'ASC';
+                return (aNull ? -1 : 1) * (nullsFirst ? 1 : -1);
+            }
+
+            const result = compareValues(a, b);
+            if (result !== 0) {
+                return direction === 'DESC' ? -result : result;
+            }
+        }
+        return 0;
+    });
+};
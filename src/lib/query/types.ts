@@ -1,4 +1,5 @@
 import type { FilterCriteria, SortCriteria, PaginationOptions } from '../types.js';
+import type { ConnectionConfig } from '../database/types.js';
 
 /**
  * Query builder interface
@@ -16,7 +17,7 @@ export interface QueryBuilder<T> {
 /**
  * Query object
  */
-export interface Query<T> {
+export interface Query<_T> {
     criteria?: FilterCriteria;
     sort?: SortCriteria[];
     pagination?: PaginationOptions;
@@ -53,4 +54,27 @@ export interface QueryMetrics {
     rowsReturned: number;
     indexesUsed: string[];
     cacheHit: boolean;
-} 
\ No newline at end of file
+}
+
+/**
+ * SQL dialects supported by the criteria compiler
+ */
+export type SqlDialect = ConnectionConfig['type'];
+
+/**
+ * Compiled SQL fragment with positional parameters
+ */
+export interface CompiledSql {
+    sql: string;
+    params: unknown[];
+}
+
+/**
+ * SQL compiler options
+ */
+export interface SqlCompilerOptions {
+    /** Map of filterable field names to column names; when set, unmapped fields are rejected */
+    columns?: Record<string, string>;
+    /** Maximum page size accepted by compilePagination */
+    maxLimit?: number;
+}
@@ -0,0 +1,749 @@
+import {
+    and,
+    or,
+    not,
+    eq,
+    ne,
+    gt,
+    gte,
+    lt,
+    lte,
+    like,
+    inArray,
+    notInArray,
+    isNull,
+    isNotNull,
+    between,
+    asc,
+    desc,
+    count,
+    sql,
+    getTableColumns,
+    getTableName,
+} from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { DrizzleD1Database } from 'drizzle-orm/d1';
+import type { SQLiteColumn, SQLiteInsertValue, SQLiteTable, SQLiteUpdateSetSource } from 'drizzle-orm/sqlite-core';
+import type {
+    BaseEntity,
+    EntityId,
+    CreateOptions,
+    UpdateOptions,
+    DeleteOptions,
+    FindOptions,
+    ListOptions,
+    SearchQuery,
+    SearchResult,
+    FilterCriteria,
+    FilterCondition,
+    SortCriteria,
+} from '../types.js';
+import type { BulkDeleteOptions, BulkOptions, BulkUpsertOptions, UpsertOptions } from '../base/types.js';
+import type { CascadeDeleteStep, CascadeDependency } from '../base/relations.js';
+import type { DrizzleRepositoryConfig } from './types.js';
+import { BaseRepository } from '../base/repository.js';
+import { ConflictError, ValidationError, NotFoundError } from '../errors/base.js';
+import { chunk, generateId, calculateOffset, omit } from '../utils/helpers.js';
+
+/**
+ * D1 limits: bound parameters per statement and statements per batch
+ */
+const D1_MAX_BOUND_PARAMETERS = 100;
+const D1_MAX_BATCH_STATEMENTS = 50;
+
+/**
+ * Fields never overwritten when an existing row is updated
+ */
+const IMMUTABLE_FIELDS = ['id', 'createdAt', 'createdBy', 'version'];
+
+const UNIQUE_VIOLATION_PATTERN = /UNIQUE constraint failed: ([\w.]+(?:, [\w.]+)*)/;
+
+/**
+ * Statement that can run on its own or as part of a D1 batch
+ */
+type Statement = BatchItem<'sqlite'>;
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+const escapeLike = (value: unknown): string => {
+    return String(value).replace(/[\\%_]/g, match => `\\${match}`);
+};
+
+/**
+ * Concrete repository backed by a Drizzle SQLite table (Cloudflare D1)
+ */
+export class DrizzleRepository<
+    TTable extends SQLiteTable,
+    TEntity extends BaseEntity = TTable['$inferSelect'] & BaseEntity,
+    TCreateInput = Partial<TEntity>,
+    TUpdateInput = Partial<TEntity>
+> extends BaseRepository<TEntity, TCreateInput, TUpdateInput> {
+
+    protected declare readonly config: DrizzleRepositoryConfig;
+    protected readonly table: TTable;
+    protected readonly db: DrizzleD1Database<Record<string, unknown>>;
+
+    constructor(table: TTable, db: DrizzleD1Database<Record<string, unknown>>, config: DrizzleRepositoryConfig = {}) {
+        super(config);
+        this.table = table;
+        this.db = db;
+    }
+
+    protected async executeCreate(data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
+        const values = this.toInsertValues(data, new Date());
+        const rows = await this.db.insert(this.table).values(this.toInsertRow(values)).returning();
+        return this.toEntity(rows[0]);
+    }
+
+    /**
+     * Insert rows with multi-row statements sized to the bound parameter limit, in one D1 batch
+     */
+    protected override async executeCreateMany(items: TCreateInput[], options?: BulkOptions): Promise<Array<TEntity | null>> {
+        const now = new Date();
+        const rows = items.map(item => this.toInsertValues(item, now));
+        const perStatement = Math.max(1, Math.floor(this.maxBoundParameters() / this.columnCount()));
+
+        const results = await this.runStatements<Record<string, unknown>>(
+            chunk(rows, perStatement).map(group => this.db.insert(this.table).values(group.map(row => this.toInsertRow(row))).returning())
+        );
+        return this.alignById(rows.map(row => row.id as EntityId), results);
+    }
+
+    protected async executeFindById(id: EntityId, options?: FindOptions): Promise<TEntity | null> {
+        const rows = await this.db
+            .select()
+            .from(this.table)
+            .where(eq(this.column('id'), id))
+            .limit(1);
+
+        return rows.length > 0 ? this.toEntity(rows[0]) : null;
+    }
+
+    protected async executeFindMany(criteria: FilterCriteria, options?: FindOptions): Promise<TEntity[]> {
+        const listOptions = options as ListOptions | undefined;
+        let query = this.db
+            .select()
+            .from(this.table)
+            .where(this.toWhere(criteria))
+            .$dynamic();
+
+        if (listOptions?.sort?.length) {
+            query = query.orderBy(...this.toOrderBy(listOptions.sort));
+        }
+        if (listOptions?.limit) {
+            const offset = listOptions.offset ?? calculateOffset(listOptions.page || 1, listOptions.limit);
+            query = query.limit(listOptions.limit).offset(offset);
+        }
+
+        const rows = await query;
+        return rows.map(row => this.toEntity(row));
+    }
+
+    protected async executeUpdate(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity | null> {
+        const values: Record<string, unknown> = omit(data as Record<string, unknown>, IMMUTABLE_FIELDS);
+        const conditions: SQL[] = [eq(this.column('id'), id)];
+        const expectedVersion = options?.expectedVersion;
+
+        if (this.config.timestamps) {
+            values.updatedAt = new Date();
+        }
+        if (this.hasColumn('version')) {
+            if (expectedVersion !== undefined) {
+                conditions.push(eq(this.column('version'), expectedVersion));
+                values.version = expectedVersion + 1;
+            } else {
+                values.version = sql`${this.column('version')} + 1`;
+            }
+        }
+
+        const rows = await this.db
+            .update(this.table)
+            .set(this.toUpdateSet(values))
+            .where(and(...conditions))
+            .returning();
+
+        return rows.length > 0 ? this.toEntity(rows[0]) : null;
+    }
+
+    /**
+     * Apply a patch to rows by id with `IN` lists sized to the bound parameter limit, in one D1 batch
+     */
+    protected override async executeUpdateMany(ids: EntityId[], patch: TUpdateInput, options?: BulkOptions): Promise<Array<TEntity | null>> {
+        const values = this.toUpdateValues(patch, new Date());
+        const perStatement = Math.max(1, this.maxBoundParameters() - Object.keys(values).length);
+
+        const results = await this.runStatements<Record<string, unknown>>(
+            chunk(ids, perStatement).map(group => this.db
+                .update(this.table)
+                .set(this.toUpdateSet(values))
+                .where(inArray(this.column('id'), group))
+                .returning())
+        );
+        return this.alignById(ids, results);
+    }
+
+    /**
+     * Soft or hard delete rows by id, in one D1 batch
+     */
+    protected override async executeDeleteMany(ids: EntityId[], options?: BulkDeleteOptions): Promise<Array<EntityId | null>> {
+        const results = await this.runStatements<{ id: EntityId }>(this.toDeleteStatements(ids, this.useSoftDelete(options)));
+
+        const deleted = new Set(results.map(row => row.id));
+        return ids.map(id => deleted.has(id) ? id : null);
+    }
+
+    /**
+     * Apply every step of a cascading delete in a single D1 batch
+     * @description Dependants are deleted by foreign key through subqueries on their parents, so
+     * rows added since planning go too, and each restriction is a guard failing the batch while
+     * the relation has dependants. Root ids are split so every statement stays within the bound
+     * parameter limit.
+     * @throws ValidationError when a step targets a repository outside this database
+     */
+    protected override async executeCascadeDelete(steps: CascadeDeleteStep[], restrictions: CascadeDependency[] = []): Promise<void> {
+        const root = steps.find(step => !step.dependency);
+        if (!root) {
+            return;
+        }
+
+        const toStatements = (rootIds: EntityId[]): Statement[] => [
+            ...restrictions.map(restriction => this.toCascadeRepository(restriction.relation.target).toRestrictGuard(restriction, rootIds)),
+            ...steps.map(step => this.toCascadeRepository(step.repository).toCascadeStatement(step, rootIds)),
+        ];
+
+        // Each statement binds the root ids once, next to a fixed number of other parameters
+        const fixed = Math.max(0, ...toStatements(root.ids.slice(0, 1)).map(statement => this.boundParameters(statement) - 1));
+        const perChunk = Math.max(1, this.maxBoundParameters() - fixed);
+        const statements = chunk(root.ids, perChunk).flatMap(toStatements);
+
+        if (statements.length > 0) {
+            await this.batchStatements(statements);
+        }
+    }
+
+    /**
+     * Native `INSERT ... ON CONFLICT DO UPDATE` (requires a unique index on `conflictFields`)
+     * @description A matching row keeps its id and creation fields, has its version bumped and is
+     * restored when soft deleted. With tenant isolation, rows of another tenant are left untouched.
+     */
+    protected override async executeUpsert(data: TCreateInput, conflictFields: string[], options?: UpsertOptions): Promise<TEntity> {
+        const now = new Date();
+        const values = this.toInsertValues(data, now);
+        const rows = await this.toUpsertStatement([values], conflictFields, options, now);
+
+        if (rows.length === 0) {
+            throw this.createTenantError(options?.context, `Cannot upsert ${this.getEntityType()} owned by another tenant`);
+        }
+        return this.toEntity(rows[0]);
+    }
+
+    /**
+     * Upsert rows with multi-row `ON CONFLICT` statements, grouping rows with the same fields so
+     * missing fields never overwrite stored values
+     * @description Rows matching a row of another tenant are not updated and come back as null.
+     */
+    protected override async executeUpsertMany(
+        items: TCreateInput[],
+        conflictFields: string[],
+        options?: BulkUpsertOptions
+    ): Promise<Array<TEntity | null>> {
+        const now = new Date();
+        const rows = items.map(item => this.toInsertValues(item, now));
+        const perStatement = Math.max(1, Math.floor(this.maxBoundParameters() / this.columnCount()));
+        const groups = new Map<string, Record<string, unknown>[]>();
+
+        for (const row of rows) {
+            const signature = Object.keys(row).sort().join(',');
+            groups.set(signature, [...(groups.get(signature) || []), row]);
+        }
+
+        const statements = Array.from(groups.values())
+            .flatMap(group => chunk(group, perStatement))
+            .map(group => this.toUpsertStatement(group, conflictFields, options, now));
+        const results = await this.runStatements<Record<string, unknown>>(statements);
+
+        const key = (row: Record<string, unknown>) => this.toConflictKey(row, conflictFields);
+        const byKey = new Map(results.map(row => [key(row), row]));
+        return rows.map(row => {
+            const stored = byKey.get(key(row));
+            return stored ? this.toEntity(stored) : null;
+        });
+    }
+
+    protected async executeDelete(id: EntityId, options?: DeleteOptions): Promise<void> {
+        let rows: unknown[];
+
+        if (this.useSoftDelete(options)) {
+            const values = this.toSoftDeleteValues(new Date());
+
+            rows = await this.db
+                .update(this.table)
+                .set(this.toUpdateSet(values))
+                .where(and(eq(this.column('id'), id), isNull(this.column('deletedAt'))))
+                .returning({ id: this.column('id') });
+        } else {
+            rows = await this.db
+                .delete(this.table)
+                .where(eq(this.column('id'), id))
+                .returning({ id: this.column('id') });
+        }
+
+        if (rows.length === 0) {
+            throw new NotFoundError(this.getEntityType(), id);
+        }
+    }
+
+    protected async executeCount(criteria?: FilterCriteria): Promise<number> {
+        const rows = await this.db
+            .select({ value: count() })
+            .from(this.table)
+            .where(this.toWhere(criteria));
+
+        return rows[0]?.value ?? 0;
+    }
+
+    protected async executeSearch(query: SearchQuery, criteria: FilterCriteria): Promise<SearchResult<TEntity>> {
+        const fields = query.fields?.length ? query.fields : this.config.searchFields || [];
+        const conditions: Array<SQL | undefined> = [this.toWhere(criteria)];
+
+        if (query.query && fields.length > 0) {
+            const pattern = `%${escapeLike(query.query)}%`;
+            conditions.push(or(...fields.map(field => sql`${this.column(field)} like ${pattern} escape '\\'`)));
+        }
+
+        const where = and(...conditions);
+        let select = this.db
+            .select()
+            .from(this.table)
+            .where(where)
+            .$dynamic();
+
+        if (query.limit) {
+            select = select.limit(query.limit).offset(query.offset || 0);
+        }
+
+        const [rows, totals] = await Promise.all([
+            select,
+            this.db.select({ value: count() }).from(this.table).where(where),
+        ]);
+
+        return {
+            data: rows.map(row => this.toEntity(row)),
+            total: totals[0]?.value ?? 0,
+        };
+    }
+
+    /**
+     * Map a database row to an entity (through the configured factory, or override to hydrate entity classes)
+     */
+    protected toEntity(row: Record<string, unknown>): TEntity {
+        if (this.config.factory) {
+            return this.config.factory.createFromPlainObject(row) as TEntity;
+        }
+        return row as unknown as TEntity;
+    }
+
+    /**
+     * Translate filter criteria into a Drizzle SQL expression
+     */
+    protected toWhere(criteria?: FilterCriteria): SQL | undefined {
+        if (!criteria) {
+            return undefined;
+        }
+
+        const parts = [
+            ...(criteria.conditions || []).map(condition => this.toCondition(condition)),
+            ...(criteria.groups || [])
+                .map(group => this.toWhere(group))
+                .filter((part): part is SQL => part !== undefined),
+        ];
+
+        if (parts.length === 0) {
+            return undefined;
+        }
+
+        const expression = criteria.logic === 'OR' ? or(...parts) : and(...parts);
+        return criteria.not && expression ? not(expression) : expression;
+    }
+
+    /**
+     * Translate a single filter condition into a Drizzle SQL expression
+     */
+    protected toCondition(condition: FilterCondition): SQL {
+        const column = this.column(condition.field);
+        const { value, values = [] } = condition;
+
+        switch (condition.operator) {
+            case 'eq':
+                return value === null ? isNull(column) : eq(column, value);
+            case 'ne':
+                return value === null ? isNotNull(column) : ne(column, value);
+            case 'gt':
+                return gt(column, value);
+            case 'gte':
+                return gte(column, value);
+            case 'lt':
+                return lt(column, value);
+            case 'lte':
+                return lte(column, value);
+            case 'like':
+                return like(column, String(value));
+            case 'ilike':
+                return sql`lower(${column}) like lower(${String(value)})`;
+            case 'startsWith':
+                return sql`${column} like ${`${escapeLike(value)}%`} escape '\\'`;
+            case 'endsWith':
+                return sql`${column} like ${`%${escapeLike(value)}`} escape '\\'`;
+            case 'contains':
+                return sql`${column} like ${`%${escapeLike(value)}%`} escape '\\'`;
+            case 'in':
+                return inArray(column, values);
+            case 'notIn':
+                return notInArray(column, values);
+            case 'isNull':
+                return isNull(column);
+            case 'isNotNull':
+                return isNotNull(column);
+            case 'between':
+                if (values.length !== 2) {
+                    throw new ValidationError(`Operator 'between' requires exactly two values`, [{
+                        field: condition.field,
+                        message: 'Expected [min, max] in values',
+                        code: 'INVALID_FILTER',
+                        value: values,
+                    }]);
+                }
+                return between(column, values[0], values[1]);
+            default:
+                throw new ValidationError(`Unsupported filter operator '${condition.operator}'`, [{
+                    field: condition.field,
+                    message: 'Unsupported filter operator',
+                    code: 'INVALID_FILTER',
+                    value: condition.operator,
+                }]);
+        }
+    }
+
+    /**
+     * Translate sort criteria into Drizzle ORDER BY expressions
+     */
+    protected toOrderBy(sort: SortCriteria[]): SQL[] {
+        return sort.map(({ field, direction, nulls }) => {
+            const column = this.column(field);
+            if (nulls) {
+                const order = direction === 'DESC' ? 'desc' : 'asc';
+                return sql`${column} ${sql.raw(order)} nulls ${sql.raw(nulls === 'FIRST' ? 'first' : 'last')}`;
+            }
+            return direction === 'DESC' ? desc(column) : asc(column);
+        });
+    }
+
+    /**
+     * Resolve a table column by entity field name
+     */
+    protected column(field: string): SQLiteColumn {
+        const columns = this.columns();
+        const column = Object.prototype.hasOwnProperty.call(columns, field) ? columns[field] : undefined;
+
+        if (!column) {
+            throw new ValidationError(`Unknown field '${field}' on ${this.getEntityType()}`, [{
+                field,
+                message: 'Field does not exist',
+                code: 'UNKNOWN_FIELD',
+            }]);
+        }
+
+        return column;
+    }
+
+    protected hasColumn(field: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.columns(), field);
+    }
+
+    /**
+     * Table columns keyed by entity field name
+     */
+    protected columns(): Record<string, SQLiteColumn> {
+        return getTableColumns(this.table);
+    }
+
+    /**
+     * Map SQLite unique constraint failures (wrapped by drizzle as the error cause) to ConflictError
+     */
+    protected override translateError(error: unknown): unknown {
+        const messages = [error, (error as { cause?: unknown } | null)?.cause]
+            .map(candidate => candidate instanceof Error ? candidate.message : '');
+        const match = messages.map(message => UNIQUE_VIOLATION_PATTERN.exec(message)).find(Boolean);
+        if (!match) {
+            return error;
+        }
+
+        const columns = Object.entries(this.columns());
+        const fields = match[1].split(',').map(qualified => {
+            const name = qualified.trim().split('.').pop();
+            return columns.find(([, column]) => column.name === name)?.[0] ?? name;
+        });
+        return new ConflictError(
+            `${this.getEntityType()} with the same ${fields.join(', ')} already exists`,
+            'UNIQUE_VIOLATION',
+            fields
+        );
+    }
+
+    /**
+     * Insert values with id, timestamps and version defaults filled in
+     */
+    protected toInsertValues(data: TCreateInput, now: Date): Record<string, unknown> {
+        const values: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+
+        values.id ??= generateId();
+        if (this.config.timestamps) {
+            values.createdAt ??= now;
+            values.updatedAt ??= now;
+        }
+        if (this.hasColumn('version')) {
+            values.version ??= 1;
+        }
+
+        return values;
+    }
+
+    /**
+     * Update values for a patch applied without optimistic locking
+     */
+    protected toUpdateValues(patch: TUpdateInput, now: Date): Record<string, unknown> {
+        const values: Record<string, unknown> = omit(patch as Record<string, unknown>, IMMUTABLE_FIELDS);
+
+        if (this.config.timestamps) {
+            values.updatedAt = now;
+        }
+        if (this.hasColumn('version')) {
+            values.version = sql`${this.column('version')} + 1`;
+        }
+
+        return values;
+    }
+
+    /**
+     * Soft delete when requested and the table has a `deletedAt` column
+     * @throws ValidationError when `options.soft` is set explicitly and the table has no such column
+     */
+    private useSoftDelete(options?: DeleteOptions): boolean {
+        if (!this.isSoftDelete(options)) {
+            return false;
+        }
+        if (this.hasColumn('deletedAt')) {
+            return true;
+        }
+        if (options?.soft) {
+            throw new ValidationError(`${this.getEntityType()} does not support soft delete`, [{
+                field: 'deletedAt',
+                message: 'The table has no deletedAt column',
+                code: 'SOFT_DELETE_UNSUPPORTED',
+            }]);
+        }
+        return false;
+    }
+
+    /**
+     * Soft or hard delete statements by id with `IN` lists sized to the bound parameter limit
+     */
+    private toDeleteStatements(ids: EntityId[], soft: boolean): Statement[] {
+        const values = soft ? this.toSoftDeleteValues(new Date()) : {};
+        const perStatement = Math.max(1, this.maxBoundParameters() - Object.keys(values).length);
+
+        return chunk(ids, perStatement).map(group => soft
+            ? this.db
+                .update(this.table)
+                .set(this.toUpdateSet(values))
+                .where(and(inArray(this.column('id'), group), isNull(this.column('deletedAt'))))
+                .returning({ id: this.column('id') })
+            : this.db
+                .delete(this.table)
+                .where(inArray(this.column('id'), group))
+                .returning({ id: this.column('id') })
+        );
+    }
+
+    private toSoftDeleteValues(now: Date): Record<string, unknown> {
+        const values: Record<string, unknown> = { deletedAt: now };
+        if (this.config.timestamps) {
+            values.updatedAt = now;
+        }
+        if (this.hasColumn('version')) {
+            values.version = sql`${this.column('version')} + 1`;
+        }
+        return values;
+    }
+
+    /**
+     * Repository of a cascade step, which must share this database so the cascade runs in one batch
+     */
+    private toCascadeRepository(repository: CascadeDeleteStep['repository']): DrizzleRepository<SQLiteTable, BaseEntity, unknown, unknown> {
+        if (!(repository instanceof DrizzleRepository) || repository.db !== this.db) {
+            throw new ValidationError('Cascading deletes must stay within one database', [{
+                field: 'relations',
+                message: `${repository.constructor.name} does not share the database of ${this.getEntityType()}`,
+                code: 'CASCADE_ACROSS_DATABASES',
+            }]);
+        }
+        return repository;
+    }
+
+    /**
+     * Rows of a cascade step for a group of root ids: the roots themselves, or the rows referencing
+     * the rows of the parent step (resolved by subquery) within the step's scope
+     */
+    private toCascadeWhere(dependency: CascadeDependency | undefined, rootIds: EntityId[]): SQL | undefined {
+        if (!dependency) {
+            return inArray(this.column('id'), rootIds);
+        }
+
+        const parent = this.toCascadeRepository(dependency.parent.repository);
+        const parentIds = parent.db
+            .select({ id: parent.column('id') })
+            .from(parent.table)
+            .where(parent.toCascadeWhere(dependency.parent.dependency, rootIds));
+        return and(inArray(this.column(dependency.relation.foreignKey), parentIds), this.toWhere(dependency.scope));
+    }
+
+    private toCascadeStatement(step: CascadeDeleteStep, rootIds: EntityId[]): Statement {
+        const where = this.toCascadeWhere(step.dependency, rootIds);
+
+        return this.useSoftDelete({ soft: step.soft })
+            ? this.db
+                .update(this.table)
+                .set(this.toUpdateSet(this.toSoftDeleteValues(new Date())))
+                .where(and(where, isNull(this.column('deletedAt'))))
+            : this.db
+                .delete(this.table)
+                .where(where);
+    }
+
+    /**
+     * Guard failing the batch when a `restrict` relation has dependants: `json()` rejects the text
+     * selected for any matching row
+     */
+    private toRestrictGuard(restriction: CascadeDependency, rootIds: EntityId[]): Statement {
+        return this.db
+            .select({ restricted: sql`json(case when ${this.column('id')} is not null then 'restricted' end)` })
+            .from(this.table)
+            .where(this.toCascadeWhere(restriction, rootIds))
+            .limit(1);
+    }
+
+    private boundParameters(statement: Statement): number {
+        return (statement as { toSQL?(): { params: unknown[] } }).toSQL?.().params.length ?? 0;
+    }
+
+    /**
+     * Build an `INSERT ... ON CONFLICT DO UPDATE ... RETURNING` statement taking updated values from `excluded`
+     */
+    private toUpsertStatement(
+        rows: Record<string, unknown>[],
+        conflictFields: string[],
+        options: UpsertOptions | undefined,
+        now: Date
+    ) {
+        const set: Record<string, unknown> = {};
+        for (const field of Object.keys(rows[0])) {
+            if (!IMMUTABLE_FIELDS.includes(field) && !conflictFields.includes(field)) {
+                set[field] = sql.raw(`excluded.${this.quoteColumn(field)}`);
+            }
+        }
+        if (this.config.timestamps) {
+            set.updatedAt = now;
+        }
+        if (this.hasColumn('version')) {
+            set.version = sql`${this.column('version')} + 1`;
+        }
+        if (this.hasColumn('deletedAt')) {
+            set.deletedAt = null;
+        }
+
+        const tenantId = this.resolveTenant(options?.context);
+        return this.db
+            .insert(this.table)
+            .values(rows.map(row => this.toInsertRow(row)))
+            .onConflictDoUpdate({
+                target: conflictFields.map(field => this.column(field)),
+                set: this.toUpdateSet(set),
+                setWhere: tenantId ? eq(this.column('tenantId'), tenantId) : undefined,
+            })
+            .returning();
+    }
+
+    /**
+     * Key identifying a row by its conflict fields, compared as stored values so input values
+     * (e.g. dates) match the rows returned for them
+     */
+    private toConflictKey(row: Record<string, unknown>, conflictFields: string[]): string {
+        return JSON.stringify(conflictFields.map(field => {
+            const value = row[field];
+            return value === undefined || value === null ? null : this.column(field).mapToDriverValue(value);
+        }));
+    }
+
+    /**
+     * Run statements as D1 batches (atomic per batch of up to D1_MAX_BATCH_STATEMENTS statements)
+     */
+    private async runStatements<TRow>(statements: Statement[]): Promise<TRow[]> {
+        const rows: TRow[] = [];
+
+        for (const group of chunk(statements, this.config.maxBatchStatements || D1_MAX_BATCH_STATEMENTS)) {
+            for (const result of await this.batchStatements(group)) {
+                rows.push(...(result as TRow[]));
+            }
+        }
+
+        return rows;
+    }
+
+    /**
+     * Run statements atomically: a single statement directly, several as one D1 batch
+     */
+    private async batchStatements(statements: Statement[]): Promise<unknown[]> {
+        const [first, ...rest] = statements;
+        return rest.length === 0 ? [await first] : this.db.batch([first, ...rest]);
+    }
+
+    /**
+     * Typed insert payload for values assembled by field name
+     */
+    private toInsertRow(values: Record<string, unknown>): SQLiteInsertValue<TTable> {
+        return values as SQLiteInsertValue<TTable>;
+    }
+
+    /**
+     * Typed update payload for values assembled by field name
+     */
+    private toUpdateSet(values: Record<string, unknown>): SQLiteUpdateSetSource<TTable> {
+        return values as SQLiteUpdateSetSource<TTable>;
+    }
+
+    private alignById(ids: EntityId[], rows: Record<string, unknown>[]): Array<TEntity | null> {
+        const byId = new Map(rows.map(row => [row.id, row]));
+        return ids.map(id => {
+            const row = byId.get(id);
+            return row ? this.toEntity(row) : null;
+        });
+    }
+
+    private quoteColumn(field: string): string {
+        return `"${this.column(field).name.replace(/"/g, '""')}"`;
+    }
+
+    private columnCount(): number {
+        return Math.max(1, Object.keys(this.columns()).length);
+    }
+
+    private maxBoundParameters(): number {
+        return this.config.maxBoundParameters || D1_MAX_BOUND_PARAMETERS;
+    }
+
+    protected override getEntityType(): string {
+        return getTableName(this.table);
+    }
+}
@@ -0,0 +1,3 @@
+export * from './drizzle.js';
+export * from './memory.js';
+export * from './types.js';
@@ -0,0 +1,228 @@
+import type {
+    BaseEntity,
+    EntityId,
+    CreateOptions,
+    UpdateOptions,
+    DeleteOptions,
+    FindOptions,
+    ListOptions,
+    SearchQuery,
+    SearchResult,
+    FilterCriteria,
+} from '../types.js';
+import type { CascadeDeleteStep } from '../base/relations.js';
+import type { BulkOptions } from '../base/types.js';
+import type { InMemoryRepositoryConfig } from './types.js';
+import { BaseRepository } from '../base/repository.js';
+import { ConflictError, NotFoundError, ValidationError } from '../errors/base.js';
+import { matchesCondition, matchesCriteria, sortRecords } from '../query/matcher.js';
+import { deepClone, generateId, calculateOffset, omit } from '../utils/helpers.js';
+
+/**
+ * Map-backed repository for tests and prototyping
+ * @description Mirrors the behaviour expected from SQL-backed repositories,
+ * including filtering, sorting, pagination, soft delete and optimistic locking
+ */
+export class InMemoryRepository<
+    TEntity extends BaseEntity,
+    TCreateInput = Partial<TEntity>,
+    TUpdateInput = Partial<TEntity>
+> extends BaseRepository<TEntity, TCreateInput, TUpdateInput> {
+
+    protected declare readonly config: InMemoryRepositoryConfig;
+    protected readonly entityName: string;
+    protected readonly store: Map<EntityId, TEntity> = new Map();
+
+    constructor(entityName = 'Entity', config: InMemoryRepositoryConfig = {}) {
+        super(config);
+        this.entityName = entityName;
+    }
+
+    /**
+     * Remove all stored entities
+     */
+    public clear(): void {
+        this.store.clear();
+    }
+
+    protected async executeCreate(data: TCreateInput, options?: CreateOptions): Promise<TEntity> {
+        const entity = this.build(data, new Date());
+        this.assertUniqueIds([entity]);
+
+        this.store.set(entity.id, entity);
+        return this.copy(entity);
+    }
+
+    /**
+     * Create a batch atomically: nothing is stored when any id is taken
+     */
+    protected override async executeCreateMany(items: TCreateInput[], options?: BulkOptions): Promise<TEntity[]> {
+        const now = new Date();
+        const entities = items.map(item => this.build(item, now));
+        this.assertUniqueIds(entities);
+
+        entities.forEach(entity => this.store.set(entity.id, entity));
+        return entities.map(entity => this.copy(entity));
+    }
+
+    protected async executeFindById(id: EntityId, options?: FindOptions): Promise<TEntity | null> {
+        const entity = this.store.get(id);
+        return entity ? this.copy(entity) : null;
+    }
+
+    protected async executeFindMany(criteria: FilterCriteria, options?: FindOptions): Promise<TEntity[]> {
+        const listOptions = options as ListOptions | undefined;
+        let entities = sortRecords(this.filter(criteria), listOptions?.sort);
+
+        if (listOptions?.limit) {
+            const offset = listOptions.offset ?? calculateOffset(listOptions.page || 1, listOptions.limit);
+            entities = entities.slice(offset, offset + listOptions.limit);
+        }
+
+        return entities.map(entity => this.copy(entity));
+    }
+
+    protected async executeUpdate(id: EntityId, data: TUpdateInput, options?: UpdateOptions): Promise<TEntity | null> {
+        const existing = this.store.get(id);
+        if (!existing) {
+            return null;
+        }
+        if (options?.expectedVersion !== undefined && options.expectedVersion !== existing.version) {
+            return null;
+        }
+
+        const updated = this.copy(existing);
+        Object.assign(updated, omit(data as Record<string, unknown>, ['id', 'createdAt', 'createdBy', 'version']));
+        updated.version = existing.version + 1;
+        if (this.config.timestamps) {
+            updated.updatedAt = new Date();
+        }
+
+        this.store.set(id, updated);
+        return this.copy(updated);
+    }
+
+    protected async executeDelete(id: EntityId, options?: DeleteOptions): Promise<void> {
+        const soft = this.isSoftDelete(options);
+        const existing = this.store.get(id);
+        if (!existing || (soft && existing.deletedAt)) {
+            throw new NotFoundError(this.getEntityType(), id);
+        }
+
+        if (!soft) {
+            this.store.delete(id);
+            return;
+        }
+
+        const deleted = this.copy(existing);
+        deleted.deletedAt = new Date();
+        deleted.version = existing.version + 1;
+        if (this.config.timestamps) {
+            deleted.updatedAt = deleted.deletedAt;
+        }
+        this.store.set(id, deleted);
+    }
+
+    /**
+     * Apply every step of a cascading delete, restoring all touched stores when one fails
+     * @throws ValidationError when a step targets a repository that is not in-memory
+     */
+    protected override async executeCascadeDelete(steps: CascadeDeleteStep[]): Promise<void> {
+        const snapshots = new Map<InMemoryRepository<BaseEntity, unknown, unknown>, Map<EntityId, BaseEntity>>();
+        for (const step of steps) {
+            const repository = step.repository;
+            if (!(repository instanceof InMemoryRepository)) {
+                throw new ValidationError('Cascading deletes must stay within in-memory repositories', [{
+                    field: 'relations',
+                    message: `${repository.constructor.name} is not an InMemoryRepository`,
+                    code: 'CASCADE_ACROSS_DATABASES',
+                }]);
+            }
+            if (!snapshots.has(repository)) {
+                snapshots.set(repository, new Map(repository.store));
+            }
+        }
+
+        try {
+            for (const step of steps) {
+                for (const id of step.ids) {
+                    await (step.repository as InMemoryRepository<BaseEntity, unknown, unknown>).executeDelete(id, { soft: step.soft });
+                }
+            }
+        } catch (error) {
+            for (const [repository, snapshot] of snapshots) {
+                repository.store.clear();
+                snapshot.forEach((entity, id) => repository.store.set(id, entity));
+            }
+            throw error;
+        }
+    }
+
+    protected async executeCount(criteria?: FilterCriteria): Promise<number> {
+        return this.filter(criteria).length;
+    }
+
+    protected async executeSearch(query: SearchQuery, criteria: FilterCriteria): Promise<SearchResult<TEntity>> {
+        const fields = query.fields?.length ? query.fields : this.config.searchFields || [];
+        const term = query.query;
+
+        // Search matches like the `contains` operator, with the dialect's case rules
+        const matches = this.filter(criteria).filter(entity => {
+            if (!term || fields.length === 0) {
+                return true;
+            }
+            return fields.some(field => matchesCondition(
+                entity as unknown as Record<string, unknown>,
+                { field, operator: 'contains', value: term },
+                { dialect: this.config.dialect }
+            ));
+        });
+
+        const offset = query.offset || 0;
+        const data = query.limit ? matches.slice(offset, offset + query.limit) : matches;
+
+        return {
+            data: data.map(entity => this.copy(entity)),
+            total: matches.length,
+        };
+    }
+
+    protected override getEntityType(): string {
+        return this.entityName;
+    }
+
+    private build(data: TCreateInput, now: Date): TEntity {
+        const entity = this.copy(data as unknown as TEntity);
+
+        entity.id = entity.id || generateId();
+        entity.version = entity.version || 1;
+        if (this.config.timestamps) {
+            entity.createdAt = entity.createdAt || now;
+            entity.updatedAt = entity.updatedAt || now;
+        }
+
+        return entity;
+    }
+
+    private assertUniqueIds(entities: TEntity[]): void {
+        const seen = new Set<EntityId>();
+        for (const entity of entities) {
+            if (this.store.has(entity.id) || seen.has(entity.id)) {
+                throw new ConflictError(`${this.getEntityType()} '${entity.id}' already exists`, 'DUPLICATE_ID', entity.id);
+            }
+            seen.add(entity.id);
+        }
+    }
+
+    private filter(criteria?: FilterCriteria): TEntity[] {
+        return Array.from(this.store.values())
+            .filter(entity => matchesCriteria(entity as unknown as Record<string, unknown>, criteria, { dialect: this.config.dialect }));
+    }
+
+    /**
+     * Deep copy that keeps the prototype, so callers cannot mutate stored state
+     */
+    private copy(entity: TEntity): TEntity {
+        return deepClone(entity);
+    }
+}
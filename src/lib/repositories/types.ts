@@ -0,0 +1,27 @@
+import type { BaseEntity } from '../types.js';
+import type { IEntityFactory, RepositoryConfig } from '../base/types.js';
+import type { SqlDialect } from '../query/types.js';
+
+/**
+ * Drizzle repository configuration
+ */
+export interface DrizzleRepositoryConfig extends RepositoryConfig {
+    /** Columns searched when a search query does not name any fields */
+    searchFields?: string[];
+    /** Factory hydrating rows into entities (rows are returned as-is when omitted) */
+    factory?: IEntityFactory<BaseEntity>;
+    /** Bound parameters allowed per statement in bulk writes (default: 100, the D1 limit) */
+    maxBoundParameters?: number;
+    /** Statements per D1 batch in bulk writes (default: 50) */
+    maxBatchStatements?: number;
+}
+
+/**
+ * In-memory repository configuration
+ */
+export interface InMemoryRepositoryConfig extends RepositoryConfig {
+    /** Fields searched when a search query does not name any fields */
+    searchFields?: string[];
+    /** Dialect whose matching semantics (e.g. LIKE case rules) are mirrored (default: 'sqlite') */
+    dialect?: SqlDialect;
+}
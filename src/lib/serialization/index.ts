@@ -0,0 +1,2 @@
+export * from './serializer.js';
+export * from './types.js';
@@ -0,0 +1,172 @@
+import type { SecurityContext } from '../security/types.js';
+import type {
+    DateFormat,
+    FieldRule,
+    FieldVisibility,
+    ISerializer,
+    SerializeOptions,
+    SerializerOptions,
+} from './types.js';
+import { isPlainObject } from '../utils/helpers.js';
+
+const VISIBILITY_RANK: Record<FieldVisibility, number> = {
+    public: 0,
+    owner: 1,
+    internal: 2,
+};
+
+/**
+ * Field names kept from non-internal audiences unless a rule says otherwise
+ */
+const DEFAULT_SENSITIVE_FIELDS = /password|passwd|secret|token|api_?key|private_?key|credential|hash$|salt$/i;
+
+const hasAnyRole = (context: SecurityContext | undefined, roles: string[] | undefined): boolean => {
+    return !!context && !!roles && roles.some(role => context.roles.includes(role));
+};
+
+/**
+ * Format a date according to a DateFormat
+ */
+export const formatDateValue = (date: Date, format: DateFormat = 'iso'): unknown => {
+    if (typeof format === 'function') {
+        return format(date);
+    }
+    switch (format) {
+        case 'epoch':
+            return Math.floor(date.getTime() / 1000);
+        case 'epoch_ms':
+            return date.getTime();
+        default:
+            return date.toISOString();
+    }
+};
+
+/**
+ * Serializer applying per-field visibility rules
+ * @description Entities are read through `toPlainObject` when available, so every own field is
+ * considered. Fields are emitted only when the caller's audience (public, owner or internal,
+ * derived from the SecurityContext) reaches the field's visibility or the caller holds one of the
+ * field's roles. Fields without a rule whose names look sensitive (see `sensitiveFields`) are
+ * internal whatever the default visibility, and such keys are dropped from nested objects too.
+ * Dates are formatted recursively, including inside metadata.
+ */
+export class EntitySerializer<TEntity = Record<string, unknown>> implements ISerializer<TEntity> {
+    private readonly options: SerializerOptions<TEntity>;
+    private readonly rules: Map<string, FieldRule<TEntity>>;
+
+    constructor(options: SerializerOptions<TEntity> = {}) {
+        this.options = options;
+        this.rules = new Map(Object.entries(options.fields || {}).map(([field, rule]) => [
+            field,
+            typeof rule === 'string' ? { visibility: rule } : rule,
+        ]));
+    }
+
+    /**
+     * Serialize one entity for the caller described by the options
+     */
+    public serialize(entity: TEntity, options: SerializeOptions = {}): Record<string, unknown> {
+        const source = this.toSource(entity);
+        const audience = options.audience ?? this.resolveAudience(entity, source, options.context);
+        const output: Record<string, unknown> = {};
+
+        for (const [field, value] of Object.entries(source)) {
+            if (value === undefined || !this.isSelected(field, options)) {
+                continue;
+            }
+
+            const rule = this.rules.get(field) || {};
+            if (!this.isVisible(field, rule, audience, options.context)) {
+                continue;
+            }
+
+            const transformed = rule.transform ? rule.transform(value, entity) : value;
+            output[rule.rename || field] = this.formatValue(transformed, audience);
+        }
+
+        return output;
+    }
+
+    /**
+     * Serialize a list of entities (the audience is resolved per entity)
+     */
+    public serializeMany(entities: TEntity[], options: SerializeOptions = {}): Record<string, unknown>[] {
+        return entities.map(entity => this.serialize(entity, options));
+    }
+
+    /**
+     * Audience of a caller for one entity
+     */
+    public resolveAudience(
+        entity: TEntity,
+        source: Record<string, unknown> = this.toSource(entity),
+        context?: SecurityContext
+    ): FieldVisibility {
+        if (!context) {
+            return 'public';
+        }
+        if (hasAnyRole(context, this.options.internalRoles)) {
+            return 'internal';
+        }
+        if (hasAnyRole(context, this.options.ownerRoles) || this.isOwner(entity, source, context)) {
+            return 'owner';
+        }
+        return 'public';
+    }
+
+    private isOwner(entity: TEntity, source: Record<string, unknown>, context: SecurityContext): boolean {
+        if (this.options.isOwner) {
+            return this.options.isOwner(entity, context);
+        }
+        const owner = source[this.options.ownerField || 'createdBy'];
+        return context.userId !== undefined && owner !== undefined && owner === context.userId;
+    }
+
+    private isVisible(field: string, rule: FieldRule<TEntity>, audience: FieldVisibility, context?: SecurityContext): boolean {
+        const visibility = rule.visibility
+            || (this.isSensitive(field) ? 'internal' : this.options.defaultVisibility || 'public');
+        return VISIBILITY_RANK[audience] >= VISIBILITY_RANK[visibility] || hasAnyRole(context, rule.roles);
+    }
+
+    private isSelected(field: string, options: SerializeOptions): boolean {
+        if (options.include && options.include.length > 0 && !options.include.includes(field)) {
+            return false;
+        }
+        return !options.exclude?.includes(field);
+    }
+
+    private isSensitive(field: string): boolean {
+        return (this.options.sensitiveFields || DEFAULT_SENSITIVE_FIELDS).test(field);
+    }
+
+    private formatValue(value: unknown, audience: FieldVisibility): unknown {
+        if (value instanceof Date) {
+            return formatDateValue(value, this.options.dateFormat);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.formatValue(item, audience));
+        }
+        if (isPlainObject(value)) {
+            return Object.fromEntries(Object.entries(value)
+                .filter(([key]) => audience === 'internal' || !this.isSensitive(key))
+                .map(([key, item]) => [key, this.formatValue(item, audience)]));
+        }
+        return value;
+    }
+
+    private toSource(entity: TEntity): Record<string, unknown> {
+        const candidate = entity as { toPlainObject?: () => Record<string, unknown> };
+        return typeof candidate.toPlainObject === 'function'
+            ? candidate.toPlainObject()
+            : { ...(entity as Record<string, unknown>) };
+    }
+}
+
+/**
+ * Create an entity serializer
+ */
+export function createSerializer<TEntity = Record<string, unknown>>(
+    options: SerializerOptions<TEntity> = {}
+): EntitySerializer<TEntity> {
+    return new EntitySerializer(options);
+}
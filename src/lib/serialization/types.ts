@@ -0,0 +1,74 @@
+import type { FindOptions } from '../types.js';
+import type { SecurityContext } from '../security/types.js';
+
+/**
+ * Audience a field is visible to
+ * @description `public` fields are visible to everyone, `owner` fields to the entity owner and
+ * privileged roles, `internal` fields only to internal roles (never to API clients by default).
+ */
+export type FieldVisibility = 'internal' | 'owner' | 'public';
+
+/**
+ * How dates are written to serialized output
+ */
+export type DateFormat = 'iso' | 'epoch' | 'epoch_ms' | ((date: Date) => unknown);
+
+/**
+ * Serialization rule for a single field
+ */
+export interface FieldRule<TEntity = Record<string, unknown>> {
+    /** Audience the field is visible to (defaults to the serializer's default visibility) */
+    visibility?: FieldVisibility;
+    /** Roles that always see the field, regardless of visibility */
+    roles?: string[];
+    /** Output name for the field */
+    rename?: string;
+    /** Transform the value before it is written */
+    transform?: (value: unknown, entity: TEntity) => unknown;
+}
+
+/**
+ * Serializer configuration
+ */
+export interface SerializerOptions<TEntity = Record<string, unknown>> {
+    /** Rules per field; a bare visibility is shorthand for `{ visibility }` */
+    fields?: Record<string, FieldVisibility | FieldRule<TEntity>>;
+    /** Visibility of fields without a rule (default: 'public') */
+    defaultVisibility?: FieldVisibility;
+    /**
+     * Names treated as internal when they have no rule, and dropped from nested objects below the
+     * internal audience (default: password, secret, token, API/private key and credential names,
+     * and names ending in hash or salt)
+     */
+    sensitiveFields?: RegExp;
+    /** Field holding the owner's user id (default: 'createdBy') */
+    ownerField?: string;
+    /** Custom owner check, replacing the `ownerField` comparison */
+    isOwner?: (entity: TEntity, context: SecurityContext) => boolean;
+    /** Roles that see owner fields on every entity */
+    ownerRoles?: string[];
+    /** Roles that see internal fields */
+    internalRoles?: string[];
+    /** Date output format (default: 'iso') */
+    dateFormat?: DateFormat;
+}
+
+/**
+ * Per-call serialization options
+ * @description `include`/`exclude` follow FindOptions, so find options can be passed straight through.
+ * Include narrows the output; it never reveals fields hidden by visibility rules.
+ */
+export interface SerializeOptions extends Pick<FindOptions, 'include' | 'exclude'> {
+    /** Caller's security context (public audience when omitted) */
+    context?: SecurityContext;
+    /** Override the audience instead of deriving it from the context */
+    audience?: FieldVisibility;
+}
+
+/**
+ * Serializes entities to API output
+ */
+export interface ISerializer<TEntity = Record<string, unknown>> {
+    serialize(entity: TEntity, options?: SerializeOptions): Record<string, unknown>;
+    serializeMany(entities: TEntity[], options?: SerializeOptions): Record<string, unknown>[];
+}
@@ -1,10 +1,16 @@
 // Core Framework - Main exports
+export * from './audit/index.js';
 export * from './base/index.js';
+export * from './cache/index.js';
 export * from './database/index.js';
 export * from './errors/index.js';
+export * from './events/index.js';
 export * from './query/index.js';
+export * from './repositories/index.js';
 export * from './security/index.js';
+export * from './serialization/index.js';
 export * from './utils/index.js';
+export * from './values/index.js';
 
 // Export validation functions
 export {
@@ -50,6 +56,7 @@ export type {
   DeepPartial,
   BaseEntity,
   AuditTrail,
+  OperationContext,
   PaginationOptions,
   PaginatedResult,
   SearchQuery,
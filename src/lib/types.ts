@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { QueryHints } from './query/types.js';
 
 /**
  * Brand types for type safety
@@ -33,6 +34,7 @@ export interface BaseEntity {
     updatedBy?: UserId;
     version: number;
     deletedAt?: Date;
+    tenantId?: TenantId;
     metadata?: Record<string, unknown>;
 }
 
@@ -90,10 +92,20 @@ export interface SearchResult<T> {
     highlights?: Record<string, string[]>;
 }
 
+/**
+ * Caller context for a repository or service operation
+ */
+export interface OperationContext {
+    tenantId?: TenantId;
+    userId?: UserId;
+    traceId?: TraceId;
+}
+
 /**
  * Operation options with strict optional properties
  */
 export interface CreateOptions {
+    context?: OperationContext;
     skipValidation?: boolean;
     skipEvents?: boolean;
     auditTrail?: boolean;
@@ -102,10 +114,12 @@ export interface CreateOptions {
 
 export interface UpdateOptions extends CreateOptions {
     optimisticLocking?: boolean;
+    expectedVersion?: number;
     partial?: boolean;
 }
 
 export interface DeleteOptions {
+    context?: OperationContext;
     soft?: boolean;
     skipEvents?: boolean;
     auditTrail?: boolean;
@@ -113,10 +127,12 @@ export interface DeleteOptions {
 }
 
 export interface FindOptions {
+    context?: OperationContext;
     include?: string[];
     exclude?: string[];
     withDeleted?: boolean;
     forUpdate?: boolean;
+    hints?: QueryHints;
 }
 
 export interface ListOptions extends FindOptions, PaginationOptions {
@@ -154,6 +170,8 @@ export interface FilterCriteria {
     conditions?: FilterCondition[];
     logic?: 'AND' | 'OR';
     groups?: FilterCriteria[];
+    /** Negate the combined conditions and groups (SQL NOT) */
+    not?: boolean;
 }
 
 /**
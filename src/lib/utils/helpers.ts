@@ -55,8 +55,11 @@ export const deepClone = <T>(obj: T): T => {
     if (obj === null || typeof obj !== 'object') return obj;
     if (obj instanceof Date) return new Date(obj.getTime()) as unknown as T;
     if (Array.isArray(obj)) return obj.map(deepClone) as unknown as T;
+    // Frozen objects (value objects) are immutable and safe to share
+    if (Object.isFrozen(obj)) return obj;
 
-    const cloned = {} as T;
+    // Keep the prototype so class instances (entities, value objects) survive cloning
+    const cloned = Object.create(Object.getPrototypeOf(obj)) as T;
     for (const key in obj) {
         if (Object.prototype.hasOwnProperty.call(obj, key)) {
             cloned[key] = deepClone(obj[key]);
@@ -65,6 +68,67 @@ export const deepClone = <T>(obj: T): T => {
     return cloned;
 };
 
+/**
+ * Check if a value is a plain object (not a Date, array or class instance)
+ */
+export const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (value === null || typeof value !== 'object') return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+};
+
+const hasEquals = (value: unknown): value is { equals(other: unknown): boolean } => {
+    return value !== null && typeof value === 'object' && typeof (value as { equals?: unknown }).equals === 'function';
+};
+
+/**
+ * Compare two values structurally (dates by timestamp, value objects by their `equals`)
+ */
+export const isDeepEqual = (left: unknown, right: unknown): boolean => {
+    if (left === right) return true;
+    if (left instanceof Date && right instanceof Date) return left.getTime() === right.getTime();
+    if (hasEquals(left) && hasEquals(right) && Object.getPrototypeOf(left) === Object.getPrototypeOf(right)) {
+        return left.equals(right);
+    }
+    if (Array.isArray(left) && Array.isArray(right)) {
+        return left.length === right.length && left.every((item, index) => isDeepEqual(item, right[index]));
+    }
+    if (isPlainObject(left) && isPlainObject(right)) {
+        const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+        return Array.from(keys).every(key => isDeepEqual(left[key], right[key]));
+    }
+    return false;
+};
+
+/**
+ * Compute a field-level diff between two objects
+ * @description Nested plain objects are diffed recursively with dotted paths (e.g. `metadata.plan`)
+ */
+export const diffObjects = (
+    before: Record<string, unknown> = {},
+    after: Record<string, unknown> = {},
+    ignore: string[] = [],
+    prefix = ''
+): Record<string, { from: unknown; to: unknown }> => {
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (ignore.includes(path)) continue;
+
+        const from = before[key];
+        const to = after[key];
+        if (isPlainObject(from) && isPlainObject(to)) {
+            Object.assign(changes, diffObjects(from, to, ignore, path));
+        } else if (!isDeepEqual(from, to) && !(isNullOrUndefined(from) && isNullOrUndefined(to))) {
+            changes[path] = { from, to };
+        }
+    }
+
+    return changes;
+};
+
 /**
  * Omit properties from an object
  */
@@ -93,6 +157,17 @@ export const pick = <T extends Record<string, unknown>, K extends keyof T>(
     return result;
 };
 
+/**
+ * Split an array into chunks of at most `size` items
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let index = 0; index < items.length; index += Math.max(1, size)) {
+        chunks.push(items.slice(index, index + Math.max(1, size)));
+    }
+    return chunks;
+};
+
 /**
  * Convert string to camelCase
  */
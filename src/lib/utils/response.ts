@@ -1,4 +1,5 @@
 import type { ApiResponse, ApiError, TraceId, HealthCheck } from '../types.js';
+import type { ISerializer, SerializeOptions } from '../serialization/types.js';
 import { generateTraceId, getCurrentTimestamp } from './helpers.js';
 
 /**
@@ -74,6 +75,40 @@ export const createPaginatedResponse = <T>(
     }, undefined, traceId);
 };
 
+/**
+ * Create a successful response with entities passed through a serializer
+ * @description Visibility rules are applied for the security context in `options`, so fields
+ * such as password hashes never reach the client.
+ */
+export const createSerializedResponse = <T>(
+    data: T | T[],
+    serializer: ISerializer<T>,
+    options: SerializeOptions = {},
+    message?: string,
+    traceId?: TraceId
+): ApiResponse<Record<string, unknown> | Record<string, unknown>[]> => {
+    const serialized = Array.isArray(data)
+        ? serializer.serializeMany(data, options)
+        : serializer.serialize(data, options);
+
+    return createSuccessResponse(serialized, message, traceId);
+};
+
+/**
+ * Create a paginated response with items passed through a serializer
+ */
+export const createSerializedPaginatedResponse = <T>(
+    data: T[],
+    total: number,
+    page: number,
+    limit: number,
+    serializer: ISerializer<T>,
+    options: SerializeOptions = {},
+    traceId?: TraceId
+): ReturnType<typeof createPaginatedResponse<Record<string, unknown>>> => {
+    return createPaginatedResponse(serializer.serializeMany(data, options), total, page, limit, traceId);
+};
+
 /**
  * Create a validation error response
  */
@@ -24,6 +24,7 @@ export const BaseEntitySchema = z.object({
     updatedBy: CommonSchemas.id.optional(),
     version: CommonSchemas.version,
     deletedAt: CommonSchemas.timestamp.optional(),
+    tenantId: CommonSchemas.id.optional(),
     metadata: CommonSchemas.metadata,
 });
 
@@ -63,10 +64,11 @@ export const FilterConditionSchema = z.object({
 /**
  * Filter criteria schema
  */
-export const FilterCriteriaSchema: z.ZodType<any> = z.object({
+export const FilterCriteriaSchema: z.ZodType<unknown> = z.object({
     conditions: z.array(FilterConditionSchema).optional(),
     logic: z.enum(['AND', 'OR']).optional(),
     groups: z.array(z.lazy(() => FilterCriteriaSchema)).optional(),
+    not: z.boolean().optional(),
 });
 
 /**
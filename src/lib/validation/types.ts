@@ -97,7 +97,7 @@ export interface Validator<T> {
  * Validation registry interface
  */
 export interface ValidationRegistry {
-    register<T>(entityType: string, config: EntityValidationConfig): void;
+    register<_T>(entityType: string, config: EntityValidationConfig): void;
     unregister(entityType: string): void;
     getValidator<T>(entityType: string): Validator<T> | undefined;
     hasValidator(entityType: string): boolean;
@@ -14,7 +14,7 @@ export const validators = {
     date: () => z.date(),
     optional: <T>(schema: z.ZodType<T>) => schema.optional(),
     array: <T>(schema: z.ZodType<T>) => z.array(schema),
-    object: <T>(shape: Record<string, z.ZodType<any>>) => z.object(shape),
+    object: <T extends z.ZodRawShape>(shape: T) => z.object(shape),
 };
 
 /**
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import type { ColumnMapper, DateRangeProps } from './types.js';
+import { ValueObject } from '../base/value-object.js';
+import { createValueObjectSchema } from './mappers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Inclusive range between two instants
+ */
+export class DateRange extends ValueObject<DateRangeProps> {
+    private constructor(start: Date, end: Date) {
+        super({ start, end });
+    }
+
+    /**
+     * Create a range from dates, ISO strings or epoch milliseconds
+     * @throws DomainValidationError when a date is invalid or the range ends before it starts
+     */
+    public static create(start: Date | string | number, end: Date | string | number): DateRange {
+        const from = new Date(start);
+        const to = new Date(end);
+
+        if (Number.isNaN(from.getTime())) {
+            DateRange.invalid(`Invalid start date '${String(start)}'`, 'INVALID_DATE', start, 'start');
+        }
+        if (Number.isNaN(to.getTime())) {
+            DateRange.invalid(`Invalid end date '${String(end)}'`, 'INVALID_DATE', end, 'end');
+        }
+        if (from.getTime() > to.getTime()) {
+            DateRange.invalid('Date range must not end before it starts', 'INVALID_DATE_RANGE', { start, end }, 'end');
+        }
+
+        return new DateRange(from, to);
+    }
+
+    public get start(): Date {
+        return new Date(this.props.start);
+    }
+
+    public get end(): Date {
+        return new Date(this.props.end);
+    }
+
+    public get durationMs(): number {
+        return this.props.end.getTime() - this.props.start.getTime();
+    }
+
+    /**
+     * Length in days, counting a partial day as a whole one
+     */
+    public get days(): number {
+        return Math.ceil(this.durationMs / DAY_MS);
+    }
+
+    public contains(date: Date): boolean {
+        const time = date.getTime();
+        return time >= this.props.start.getTime() && time <= this.props.end.getTime();
+    }
+
+    public includes(other: DateRange): boolean {
+        return this.contains(other.props.start) && this.contains(other.props.end);
+    }
+
+    public overlaps(other: DateRange): boolean {
+        return this.props.start.getTime() <= other.props.end.getTime()
+            && other.props.start.getTime() <= this.props.end.getTime();
+    }
+
+    /**
+     * Overlapping part of two ranges, or null when they do not overlap
+     */
+    public intersect(other: DateRange): DateRange | null {
+        if (!this.overlaps(other)) {
+            return null;
+        }
+        return DateRange.create(
+            Math.max(this.props.start.getTime(), other.props.start.getTime()),
+            Math.min(this.props.end.getTime(), other.props.end.getTime())
+        );
+    }
+
+    public override toJSON(): { start: string; end: string } {
+        return { start: this.props.start.toISOString(), end: this.props.end.toISOString() };
+    }
+}
+
+export const DateRangeSchema = createValueObjectSchema(
+    DateRange,
+    z.object({ start: z.coerce.date(), end: z.coerce.date() }),
+    value => DateRange.create(value.start, value.end)
+);
+
+/**
+ * Stores a range in `<field>Start` and `<field>End` ISO timestamp columns
+ */
+export const DateRangeColumns: ColumnMapper<DateRange> = {
+    columns: field => [`${field}Start`, `${field}End`],
+    toColumns: (field, value) => ({
+        [`${field}Start`]: value ? value.start.toISOString() : null,
+        [`${field}End`]: value ? value.end.toISOString() : null,
+    }),
+    fromColumns: (field, row) => {
+        const start = row[`${field}Start`];
+        const end = row[`${field}End`];
+        return start == null || end == null
+            ? undefined
+            : DateRange.create(start as string | number, end as string | number);
+    },
+};
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { ValueObject } from '../base/value-object.js';
+import { sanitizeEmail } from '../security/sanitization.js';
+import { isValidEmail } from '../security/validation.js';
+import { createColumnMapper, createValueObjectSchema } from './mappers.js';
+
+/**
+ * Email address, trimmed and lower-cased
+ */
+export class Email extends ValueObject<{ value: string }> {
+    private constructor(value: string) {
+        super({ value });
+    }
+
+    /**
+     * Normalize and validate an email address
+     * @throws DomainValidationError when the address is invalid
+     */
+    public static create(input: string): Email {
+        const value = sanitizeEmail(String(input));
+        if (!isValidEmail(value)) {
+            Email.invalid(`Invalid email address '${input}'`, 'INVALID_EMAIL', input);
+        }
+        return new Email(value);
+    }
+
+    public get value(): string {
+        return this.props.value;
+    }
+
+    public get localPart(): string {
+        return this.value.slice(0, this.value.lastIndexOf('@'));
+    }
+
+    public get domain(): string {
+        return this.value.slice(this.value.lastIndexOf('@') + 1);
+    }
+
+    public override toJSON(): string {
+        return this.value;
+    }
+
+    public override toString(): string {
+        return this.value;
+    }
+}
+
+export const EmailSchema = createValueObjectSchema(Email, z.string(), Email.create);
+
+export const EmailColumn = createColumnMapper<Email>(email => email.value, column => Email.create(String(column)));
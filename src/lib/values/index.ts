@@ -0,0 +1,7 @@
+export * from './date-range.js';
+export * from './email.js';
+export * from './mappers.js';
+export * from './money.js';
+export * from './phone-number.js';
+export * from './slug.js';
+export * from './types.js';
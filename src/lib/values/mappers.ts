@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import type { ColumnMapper, ValueObjectMappers, ValueObjectMapping } from './types.js';
+import { ValidationError } from '../errors/base.js';
+
+/**
+ * Build a Zod schema that accepts a value object instance or raw input parsed by `create`
+ * @description Validation errors thrown by `create` become schema issues carrying the error code.
+ */
+export const createValueObjectSchema = <TValue, TInput extends z.ZodTypeAny>(
+    type: { prototype: TValue },
+    input: TInput,
+    create: (value: z.output<TInput>) => TValue
+) => {
+    return z.union([
+        z.custom<TValue>(value => value instanceof (type as unknown as new () => TValue)),
+        input.transform((value: z.output<TInput>, ctx): TValue => {
+            try {
+                return create(value);
+            } catch (error) {
+                if (!(error instanceof ValidationError)) {
+                    throw error;
+                }
+                for (const issue of error.issues) {
+                    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, params: { code: issue.code } });
+                }
+                return z.NEVER;
+            }
+        }),
+    ]);
+};
+
+/**
+ * Column mapper storing a value object in the column named after the field
+ */
+export const createColumnMapper = <TValue>(
+    toColumn: (value: TValue) => unknown,
+    fromColumn: (column: unknown) => TValue
+): ColumnMapper<TValue> => ({
+    columns: field => [field],
+    toColumns: (field, value) => ({ [field]: value == null ? null : toColumn(value) }),
+    fromColumns: (field, row) => row[field] == null ? undefined : fromColumn(row[field]),
+});
+
+/**
+ * Combine column mappers into row conversions for a repository
+ * @example
+ * const mapping = createValueObjectMapping({ email: EmailColumn, price: MoneyColumns });
+ * mapping.toRow({ price: Money.of(1250, 'EUR') }); // { priceAmount: 1250, priceCurrency: 'EUR' }
+ */
+export const createValueObjectMapping = (mappers: ValueObjectMappers): ValueObjectMapping => ({
+    toRow(data) {
+        const row = { ...data };
+        for (const [field, mapper] of Object.entries(mappers)) {
+            if (field in row) {
+                const value = row[field];
+                delete row[field];
+                Object.assign(row, mapper.toColumns(field, value));
+            }
+        }
+        return row;
+    },
+    fromRow(row) {
+        const data = { ...row };
+        for (const [field, mapper] of Object.entries(mappers)) {
+            const columns = mapper.columns(field);
+            if (!columns.some(column => column in row)) {
+                continue;
+            }
+            for (const column of columns) {
+                delete data[column];
+            }
+            data[field] = mapper.fromColumns(field, row);
+        }
+        return data;
+    },
+});
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import type { ColumnMapper, MoneyProps, MoneyRounding } from './types.js';
+import { ValueObject } from '../base/value-object.js';
+import { BusinessRuleError } from '../errors/domain.js';
+import { createValueObjectSchema } from './mappers.js';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+const round = (value: number, rounding: MoneyRounding): number => {
+    switch (rounding) {
+        case 'floor':
+            return Math.floor(value);
+        case 'ceil':
+            return Math.ceil(value);
+        case 'half-up':
+            return Math.sign(value) * Math.round(Math.abs(value));
+        default: {
+            const floor = Math.floor(value);
+            const fraction = value - floor;
+            if (fraction === 0.5) {
+                return floor % 2 === 0 ? floor : floor + 1;
+            }
+            return Math.round(value);
+        }
+    }
+};
+
+/**
+ * Monetary amount held as integer minor units (e.g. cents) in one currency
+ * @description Arithmetic stays in integers, rejects mixed currencies and guards against
+ * leaving the safe integer range.
+ */
+export class Money extends ValueObject<MoneyProps> {
+    private constructor(amount: number, currency: string) {
+        super({ amount, currency });
+    }
+
+    /**
+     * Create money from integer minor units
+     * @throws DomainValidationError when the amount is not a safe integer or the currency is invalid
+     */
+    public static of(amount: number, currency: string): Money {
+        const code = String(currency).toUpperCase();
+        if (!CURRENCY_PATTERN.test(code)) {
+            Money.invalid(`Invalid currency code '${currency}'`, 'INVALID_CURRENCY', currency, 'currency');
+        }
+        if (!Number.isSafeInteger(amount)) {
+            Money.invalid('Money amount must be an integer number of minor units', 'INVALID_MONEY_AMOUNT', amount, 'amount');
+        }
+        return new Money(amount === 0 ? 0 : amount, code);
+    }
+
+    /**
+     * Create money from a major-unit amount (e.g. `'12.50'` EUR becomes 1250 cents)
+     * @description Strings are parsed exactly and may not carry more decimals than the currency allows
+     */
+    public static fromMajor(amount: number | string, currency: string): Money {
+        const digits = Money.minorDigits(currency);
+
+        if (typeof amount === 'number') {
+            return Money.of(Math.round(amount * 10 ** digits), currency);
+        }
+
+        const match = DECIMAL_PATTERN.exec(amount.trim());
+        if (!match || (match[3]?.length ?? 0) > digits) {
+            Money.invalid(`Invalid ${currency} amount '${amount}'`, 'INVALID_MONEY_AMOUNT', amount, 'amount');
+        }
+        const [, sign, whole, fraction = ''] = match;
+        const minor = Number(`${whole}${fraction.padEnd(digits, '0')}`);
+        return Money.of(sign ? -minor : minor, currency);
+    }
+
+    public static zero(currency: string): Money {
+        return Money.of(0, currency);
+    }
+
+    /**
+     * Number of minor unit digits for a currency (2 when the runtime does not know it)
+     */
+    public static minorDigits(currency: string): number {
+        try {
+            return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+        } catch {
+            return 2;
+        }
+    }
+
+    public get amount(): number {
+        return this.props.amount;
+    }
+
+    public get currency(): string {
+        return this.props.currency;
+    }
+
+    public add(other: Money): Money {
+        this.assertSameCurrency(other, 'add');
+        return this.withAmount(this.amount + other.amount);
+    }
+
+    public subtract(other: Money): Money {
+        this.assertSameCurrency(other, 'subtract');
+        return this.withAmount(this.amount - other.amount);
+    }
+
+    /**
+     * Multiply by a factor, rounding to whole minor units (banker's rounding by default)
+     */
+    public multiply(factor: number, rounding: MoneyRounding = 'half-even'): Money {
+        return this.withAmount(round(this.amount * factor, rounding));
+    }
+
+    /**
+     * Split into parts proportional to the ratios without losing minor units
+     * @description Remainders go one unit at a time to the first parts.
+     */
+    public allocate(ratios: number[]): Money[] {
+        const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+        if (ratios.length === 0 || total <= 0 || ratios.some(ratio => ratio < 0)) {
+            throw new BusinessRuleError('Allocation ratios must be non-negative with a positive total', 'INVALID_ALLOCATION', { ratios });
+        }
+
+        const parts = ratios.map(ratio => Math.trunc((this.amount * ratio) / total));
+        let remainder = this.amount - parts.reduce((sum, part) => sum + part, 0);
+        const step = Math.sign(remainder);
+        for (let index = 0; remainder !== 0; index = (index + 1) % parts.length) {
+            if (ratios[index] > 0) {
+                parts[index] += step;
+                remainder -= step;
+            }
+        }
+
+        return parts.map(part => this.withAmount(part));
+    }
+
+    public negate(): Money {
+        return this.withAmount(-this.amount);
+    }
+
+    public abs(): Money {
+        return this.withAmount(Math.abs(this.amount));
+    }
+
+    public isZero(): boolean {
+        return this.amount === 0;
+    }
+
+    public isPositive(): boolean {
+        return this.amount > 0;
+    }
+
+    public isNegative(): boolean {
+        return this.amount < 0;
+    }
+
+    /**
+     * Compare with money in the same currency (-1, 0 or 1)
+     */
+    public compareTo(other: Money): number {
+        this.assertSameCurrency(other, 'compare');
+        return Math.sign(this.amount - other.amount);
+    }
+
+    public greaterThan(other: Money): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    public lessThan(other: Money): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    /**
+     * Exact major-unit amount as a decimal string (e.g. '12.50')
+     */
+    public toMajor(): string {
+        const digits = Money.minorDigits(this.currency);
+        const units = String(Math.abs(this.amount)).padStart(digits + 1, '0');
+        const whole = digits > 0 ? units.slice(0, -digits) : units;
+        const fraction = digits > 0 ? `.${units.slice(-digits)}` : '';
+        return `${this.amount < 0 ? '-' : ''}${whole}${fraction}`;
+    }
+
+    /**
+     * Format for display with Intl (e.g. '€12.50')
+     */
+    public format(locale = 'en-US'): string {
+        return new Intl.NumberFormat(locale, { style: 'currency', currency: this.currency }).format(Number(this.toMajor()));
+    }
+
+    public override toString(): string {
+        return `${this.toMajor()} ${this.currency}`;
+    }
+
+    private withAmount(amount: number): Money {
+        if (!Number.isSafeInteger(amount)) {
+            throw new BusinessRuleError('Money arithmetic exceeded the safe integer range', 'MONEY_OVERFLOW', {
+                amount,
+                currency: this.currency,
+            });
+        }
+        return Money.of(amount, this.currency);
+    }
+
+    private assertSameCurrency(other: Money, operation: string): void {
+        if (other.currency !== this.currency) {
+            throw new BusinessRuleError(
+                `Cannot ${operation} ${other.currency} and ${this.currency} amounts`,
+                'CURRENCY_MISMATCH',
+                { left: this.currency, right: other.currency }
+            );
+        }
+    }
+}
+
+export const MoneySchema = createValueObjectSchema(
+    Money,
+    z.object({ amount: z.number().int(), currency: z.string() }),
+    value => Money.of(value.amount, value.currency)
+);
+
+/**
+ * Stores money in `<field>Amount` (integer minor units) and `<field>Currency` columns
+ */
+export const MoneyColumns: ColumnMapper<Money> = {
+    columns: field => [`${field}Amount`, `${field}Currency`],
+    toColumns: (field, value) => ({
+        [`${field}Amount`]: value?.amount ?? null,
+        [`${field}Currency`]: value?.currency ?? null,
+    }),
+    fromColumns: (field, row) => {
+        const amount = row[`${field}Amount`];
+        const currency = row[`${field}Currency`];
+        return amount == null || currency == null ? undefined : Money.of(Number(amount), String(currency));
+    },
+};
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import type { PhoneNumberOptions } from './types.js';
+import { ValueObject } from '../base/value-object.js';
+import { createColumnMapper, createValueObjectSchema } from './mappers.js';
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+/**
+ * Phone number normalized to E.164 (e.g. '+442071838750')
+ */
+export class PhoneNumber extends ValueObject<{ value: string }> {
+    private constructor(value: string) {
+        super({ value });
+    }
+
+    /**
+     * Normalize and validate a phone number
+     * @description Spaces, dots, dashes and parentheses are removed and a `00` prefix becomes `+`.
+     * Numbers without a country code need `defaultCountryCode` (their leading trunk zero is dropped).
+     * @throws DomainValidationError when the number is not a valid E.164 number
+     */
+    public static create(input: string, options: PhoneNumberOptions = {}): PhoneNumber {
+        let value = String(input).replace(/[\s().-]/g, '');
+
+        if (value.startsWith('00')) {
+            value = `+${value.slice(2)}`;
+        } else if (!value.startsWith('+') && options.defaultCountryCode) {
+            value = `+${options.defaultCountryCode.replace(/^\+/, '')}${value.replace(/^0/, '')}`;
+        }
+
+        if (!E164_PATTERN.test(value)) {
+            PhoneNumber.invalid(`Invalid phone number '${input}'`, 'INVALID_PHONE_NUMBER', input);
+        }
+        return new PhoneNumber(value);
+    }
+
+    public get value(): string {
+        return this.props.value;
+    }
+
+    public override toJSON(): string {
+        return this.value;
+    }
+
+    public override toString(): string {
+        return this.value;
+    }
+}
+
+export const PhoneNumberSchema = createValueObjectSchema(PhoneNumber, z.string(), value => PhoneNumber.create(value));
+
+export const PhoneNumberColumn = createColumnMapper<PhoneNumber>(
+    phone => phone.value,
+    column => PhoneNumber.create(String(column))
+);
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { ValueObject } from '../base/value-object.js';
+import { createColumnMapper, createValueObjectSchema } from './mappers.js';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_SLUG_LENGTH = 200;
+
+/**
+ * URL slug of lower-case letters and digits separated by single dashes
+ */
+export class Slug extends ValueObject<{ value: string }> {
+    private constructor(value: string) {
+        super({ value });
+    }
+
+    /**
+     * Validate an existing slug
+     * @throws DomainValidationError when the value is not a slug
+     */
+    public static create(input: string): Slug {
+        const value = String(input);
+        if (value.length > MAX_SLUG_LENGTH || !SLUG_PATTERN.test(value)) {
+            Slug.invalid(`Invalid slug '${input}'`, 'INVALID_SLUG', input);
+        }
+        return new Slug(value);
+    }
+
+    /**
+     * Derive a slug from free text (e.g. 'Crème Brûlée!' becomes 'creme-brulee')
+     * @throws DomainValidationError when the text has no letters or digits
+     */
+    public static fromText(text: string, maxLength = 100): Slug {
+        const value = String(text)
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, Math.min(maxLength, MAX_SLUG_LENGTH))
+            .replace(/-+$/, '');
+
+        return Slug.create(value);
+    }
+
+    public get value(): string {
+        return this.props.value;
+    }
+
+    public override toJSON(): string {
+        return this.value;
+    }
+
+    public override toString(): string {
+        return this.value;
+    }
+}
+
+export const SlugSchema = createValueObjectSchema(Slug, z.string(), Slug.create);
+
+export const SlugColumn = createColumnMapper<Slug>(slug => slug.value, column => Slug.create(String(column)));
@@ -0,0 +1,53 @@
+/**
+ * Maps a value object field to database columns and back
+ * @description Single-column values are stored under the field name; multi-column values
+ * (such as Money) derive their column names from the field name.
+ */
+export interface ColumnMapper<TValue> {
+    /** Column names used for the field */
+    columns(field: string): string[];
+    /** Columns written for the field (null columns for a missing value) */
+    toColumns(field: string, value: TValue | null | undefined): Record<string, unknown>;
+    /** Value read back from a row (undefined when the columns are empty) */
+    fromColumns(field: string, row: Record<string, unknown>): TValue | undefined;
+}
+
+/**
+ * Column mappers per entity field
+ */
+export type ValueObjectMappers = Record<string, ColumnMapper<unknown>>;
+
+/**
+ * Row conversion built from column mappers
+ */
+export interface ValueObjectMapping {
+    /** Replace value object fields with their columns */
+    toRow(data: Record<string, unknown>): Record<string, unknown>;
+    /** Replace value object columns with hydrated value objects */
+    fromRow(row: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Rounding applied when money arithmetic produces fractional minor units
+ */
+export type MoneyRounding = 'half-up' | 'half-even' | 'floor' | 'ceil';
+
+export type MoneyProps = {
+    /** Amount in integer minor units (e.g. cents) */
+    amount: number;
+    /** ISO 4217 currency code */
+    currency: string;
+};
+
+export type DateRangeProps = {
+    start: Date;
+    end: Date;
+};
+
+/**
+ * Phone number parsing options
+ */
+export interface PhoneNumberOptions {
+    /** Country calling code applied to numbers without a leading `+` (e.g. '44') */
+    defaultCountryCode?: string;
+}
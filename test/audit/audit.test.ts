@@ -0,0 +1,97 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    createAuditTrailMigration,
+    createSqliteAdapter,
+    InMemoryAuditStore,
+    InMemoryRepository,
+    SqlAuditStore,
+    type AuditTrail,
+    type BaseEntity,
+    type EntityId,
+    type TraceId,
+} from '../../src/index.js';
+
+interface Doc extends BaseEntity {
+    title: string;
+}
+
+describe('audit trail migration', () => {
+    it('can be applied more than once', async () => {
+        const adapter = createSqliteAdapter(new Database(':memory:'));
+        const migration = createAuditTrailMigration();
+
+        for (let run = 0; run < 2; run++) {
+            for (const statement of migration.up) {
+                await adapter.execute(statement);
+            }
+        }
+
+        expect(await adapter.query("SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx%'"))
+            .toEqual([{ name: 'idx_audit_trail_entity' }]);
+    });
+
+    it('declares the index with the table on MySQL', () => {
+        const migration = createAuditTrailMigration({ dialect: 'mysql' });
+
+        expect(migration.up).toHaveLength(1);
+        expect(migration.up[0]).toContain('INDEX `idx_audit_trail_entity` (`entityType`, `entityId`, `timestamp`)');
+    });
+
+    it('backs a SQL audit store', async () => {
+        const adapter = createSqliteAdapter(new Database(':memory:'));
+        for (const statement of createAuditTrailMigration().up) {
+            await adapter.execute(statement);
+        }
+        const store = new SqlAuditStore(adapter);
+        const entry: AuditTrail = {
+            operation: 'UPDATE',
+            entityId: 'e1' as EntityId,
+            entityType: 'Doc',
+            changes: { title: { from: 'a', to: 'b' } },
+            timestamp: new Date('2024-03-01T10:00:00Z'),
+            traceId: 'trace' as TraceId,
+        };
+
+        await store.record(entry);
+
+        expect(await store.query({ entityType: 'Doc', entityId: entry.entityId })).toEqual([entry]);
+    });
+});
+
+describe('repository audit trail', () => {
+    it('records the changes of upserted items', async () => {
+        const auditStore = new InMemoryAuditStore();
+        const repository = new InMemoryRepository<Doc>('Doc', { auditTrail: true, auditStore });
+        const doc = await repository.create({ title: 'a' });
+
+        await repository.upsertMany([{ id: doc.id, title: 'b' }, { id: 'new' as EntityId, title: 'c' }]);
+
+        const entries = await auditStore.query({ entityType: 'Doc' });
+        expect(entries.map(entry => [entry.operation, entry.entityId, entry.changes?.title])).toEqual([
+            ['CREATE', doc.id, { from: undefined, to: 'a' }],
+            ['UPDATE', doc.id, { from: 'a', to: 'b' }],
+            ['CREATE', 'new', { from: undefined, to: 'c' }],
+        ]);
+        expect(entries[1].changes).not.toHaveProperty('version');
+    });
+
+    it('reports audit store failures without failing the write', async () => {
+        const failures: Array<[string, unknown]> = [];
+        const auditStore = new InMemoryAuditStore();
+        auditStore.record = async () => {
+            throw new Error('audit store unavailable');
+        };
+        class DocRepository extends InMemoryRepository<Doc> {
+            protected override async onError(operation: string, error: unknown): Promise<void> {
+                failures.push([operation, error]);
+            }
+        }
+        const repository = new DocRepository('Doc', { auditTrail: true, auditStore });
+
+        const doc = await repository.create({ title: 'a' });
+
+        expect(await repository.findById(doc.id)).toMatchObject({ title: 'a' });
+        expect(failures).toEqual([['audit', new Error('audit store unavailable')]]);
+    });
+});
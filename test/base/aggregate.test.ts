@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+    AggregateRoot,
+    ConcurrencyError,
+    createEventBus,
+    InMemoryRepository,
+    InvariantViolationError,
+    type AggregateInvariant,
+    type BaseEntity,
+    type DomainEvent,
+} from '../../src/index.js';
+
+interface OrderData extends BaseEntity {
+    total: number;
+}
+
+type OrderEvent = DomainEvent<'order.charged', { amount: number }>;
+
+class Order extends AggregateRoot<OrderEvent> implements OrderData {
+    public total: number;
+
+    constructor(data: Partial<OrderData> = {}) {
+        super(data);
+        this.total = data.total ?? 0;
+    }
+
+    public charge(amount: number): void {
+        this.total += amount;
+        this.raiseEvent('order.charged', { amount });
+    }
+
+    public validate(): void {
+        this.assertInvariants();
+    }
+
+    protected override invariants(): AggregateInvariant[] {
+        return [{ name: 'non-negative-total', message: 'Total cannot be negative', check: () => this.total >= 0 }];
+    }
+}
+
+const setup = () => {
+    const eventBus = createEventBus();
+    const repository = new InMemoryRepository<Order>('Order', { eventBus });
+    const published: Array<[string, number | undefined]> = [];
+    eventBus.subscribeAll(async event => {
+        published.push([event.type, (await repository.findById(event.aggregateId!))?.version]);
+    });
+    return { repository, published };
+};
+
+describe('AggregateRoot.save', () => {
+    it('creates a new aggregate and publishes its events once stored', async () => {
+        const { repository, published } = setup();
+        const order = new Order();
+
+        order.charge(5);
+        const saved = await repository.save(order);
+
+        expect(saved).toMatchObject({ id: order.id, total: 5, version: 1 });
+        expect(published).toEqual([['order.charged', 1]]);
+        expect(order.getUncommittedEvents()).toEqual([]);
+        expect(order.getPersistedVersion()).toBe(1);
+    });
+
+    it('updates a loaded aggregate expecting the version it was loaded at', async () => {
+        const { repository, published } = setup();
+        const created = await repository.save(new Order({ total: 1 }));
+        const order = new Order(created);
+
+        order.charge(2);
+        order.charge(3);
+        await repository.save(order);
+
+        expect(await repository.findById(order.id)).toMatchObject({ total: 6, version: 2 });
+        expect(published).toEqual([['order.charged', 2], ['order.charged', 2]]);
+        expect(order.getPersistedVersion()).toBe(2);
+    });
+
+    it('keeps events uncommitted and unpublished when the aggregate is stale', async () => {
+        const { repository, published } = setup();
+        const created = await repository.save(new Order({ total: 1 }));
+        const order = new Order(created);
+        await repository.update(order.id, { total: 10, version: 1 });
+
+        order.charge(2);
+
+        await expect(repository.save(order)).rejects.toBeInstanceOf(ConcurrencyError);
+        expect(published).toEqual([]);
+        expect(order.getUncommittedEvents().map(event => event.payload)).toEqual([{ amount: 2 }]);
+    });
+
+    it('refuses events and saves that break an invariant', async () => {
+        const { repository } = setup();
+        const order = new Order({ total: 1 });
+
+        expect(() => order.charge(-5)).toThrow(InvariantViolationError);
+        expect(order.getUncommittedEvents()).toEqual([]);
+        await expect(repository.save(order)).rejects.toBeInstanceOf(InvariantViolationError);
+        expect(await repository.count()).toBe(0);
+    });
+
+    it('stores without publishing when events are skipped', async () => {
+        const { repository, published } = setup();
+        const order = new Order();
+        order.charge(5);
+
+        await repository.save(order, { skipEvents: true });
+
+        expect(published).toEqual([]);
+        expect(order.getUncommittedEvents()).toEqual([]);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ConcurrencyError,
+    Entity,
+    InMemoryRepository,
+    type BaseEntity,
+    type UpdateOptions,
+} from '../../src/index.js';
+
+interface NoteData extends BaseEntity {
+    title: string;
+    body?: string;
+}
+
+class Note extends Entity implements NoteData {
+    public title: string;
+    public body?: string;
+
+    constructor(data: Partial<NoteData> = {}) {
+        super(data);
+        this.title = data.title ?? '';
+        this.body = data.body;
+    }
+
+    public validate(): void {
+        // Nothing to validate
+    }
+}
+
+class NoteRepository extends InMemoryRepository<Note> {
+    public readonly writes: Array<Partial<Note>> = [];
+
+    protected override async beforeUpdate(id: Note['id'], data: Partial<Note>, options?: UpdateOptions): Promise<void> {
+        this.writes.push({ ...data });
+    }
+}
+
+describe('Entity dirty tracking', () => {
+    it('treats untracked entities as dirty', () => {
+        const note = new Note({ title: 'a' });
+
+        expect(note.isTracked()).toBe(false);
+        expect(note.isDirty()).toBe(true);
+    });
+
+    it('diffs fields and nested metadata against the last commit', () => {
+        const note = new Note({ title: 'a', metadata: { plan: 'free', seats: 1 } });
+        note.commitChanges();
+
+        note.title = 'b';
+        note.metadata!.plan = 'pro';
+        note.markAsUpdated();
+
+        expect(note.getChanges()).toEqual({
+            title: { from: 'a', to: 'b' },
+            'metadata.plan': { from: 'free', to: 'pro' },
+        });
+        expect(note.getChangedFields()).toEqual(['metadata', 'title']);
+        expect(note.getOriginalValue('title')).toBe('a');
+
+        note.commitChanges();
+        expect(note.isDirty()).toBe(false);
+    });
+});
+
+describe('repository updates of tracked entities', () => {
+    it('writes only the changed fields and skips no-op updates', async () => {
+        const repository = new NoteRepository('Note');
+        const note = (await repository.findById((await repository.create(new Note({ title: 'a', body: 'text' }))).id))!;
+
+        expect(await repository.update(note.id, note)).toBe(note);
+        expect(repository.writes).toEqual([]);
+
+        note.title = 'b';
+        const saved = await repository.update(note.id, note);
+
+        expect(repository.writes).toEqual([{ title: 'b' }]);
+        expect(saved).toMatchObject({ title: 'b', body: 'text', version: 2 });
+        expect(note).toMatchObject({ version: 2 });
+        expect(note.isDirty()).toBe(false);
+    });
+
+    it('clears removed fields', async () => {
+        const repository = new NoteRepository('Note');
+        const note = (await repository.findById((await repository.create(new Note({ title: 'a', body: 'text' }))).id))!;
+
+        note.body = undefined;
+        await repository.update(note.id, note);
+
+        expect(repository.writes).toEqual([{ body: null }]);
+        expect(await repository.findById(note.id)).toMatchObject({ body: null });
+    });
+
+    it('rejects a tracked entity loaded before a concurrent change', async () => {
+        const repository = new NoteRepository('Note');
+        const note = (await repository.findById((await repository.create(new Note({ title: 'a' }))).id))!;
+        await repository.update(note.id, { title: 'other', version: 1 });
+
+        note.title = 'b';
+
+        await expect(repository.update(note.id, note)).rejects.toBeInstanceOf(ConcurrencyError);
+        expect(await repository.findById(note.id)).toMatchObject({ title: 'other', version: 2 });
+    });
+});
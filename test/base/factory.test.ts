@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { describe, expect, it } from 'vitest';
+import { coerceRow } from '../../src/index.js';
+
+const schema = z.object({ at: z.date(), active: z.boolean(), tags: z.array(z.string()), note: z.string().optional() });
+
+const coerce = (row: Record<string, unknown>) => coerceRow(schema, { active: 1, tags: '[]', ...row });
+
+describe('coerceRow', () => {
+    it('reads SQLite datetime text as UTC', () => {
+        expect(coerce({ at: '2024-03-01 10:20:30' }).data.at).toEqual(new Date('2024-03-01T10:20:30Z'));
+        expect(coerce({ at: '2024-03-01 10:20' }).data.at).toEqual(new Date('2024-03-01T10:20:00Z'));
+    });
+
+    it('keeps the zone of ISO strings', () => {
+        expect(coerce({ at: '2024-03-01T10:20:30+02:00' }).data.at).toEqual(new Date('2024-03-01T08:20:30Z'));
+    });
+
+    it('takes epoch numbers in seconds or milliseconds, but not digit strings', () => {
+        expect(coerce({ at: 1700000000 }).data.at).toEqual(new Date(1700000000000));
+        expect(coerce({ at: 1700000000000 }).data.at).toEqual(new Date(1700000000000));
+        expect(coerce({ at: '1700000000' }).data.at).toBe('1700000000');
+    });
+
+    it('converts flags, JSON text and NULL', () => {
+        const { data, issues } = coerce({ at: 0, active: 0, tags: '["a"]', note: null });
+
+        expect(data).toMatchObject({ active: false, tags: ['a'], note: undefined });
+        expect(issues).toEqual([]);
+    });
+
+    it('reports unparsable JSON', () => {
+        expect(coerce({ at: 0, tags: '[' }).issues).toHaveLength(1);
+    });
+});
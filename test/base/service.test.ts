@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BaseService,
+    ConcurrencyError,
+    createEventBus,
+    InMemoryRepository,
+    NotFoundError,
+    type BaseEntity,
+    type DomainEvent,
+    type EntityId,
+    type IEventBus,
+    type TenantId,
+    type UpdateOptions,
+    type UserId,
+} from '../../src/index.js';
+
+interface Counter extends BaseEntity {
+    value: number;
+}
+
+class CounterService extends BaseService<Counter> {
+    public increment(id: EntityId, options?: UpdateOptions, onRead?: () => Promise<void>): Promise<Counter> {
+        return this.retryOnConflict(id, async current => {
+            await onRead?.();
+            return { value: current.value + 1 };
+        }, options);
+    }
+
+    protected getEntityType(): string {
+        return 'Counter';
+    }
+}
+
+describe('BaseService.retryOnConflict', () => {
+    it('reloads and retries when the entity changed concurrently', async () => {
+        const repository = new InMemoryRepository<Counter>('Counter');
+        const service = new CounterService(repository, { retries: 2 });
+        const counter = await repository.create({ value: 0 });
+        let raced = false;
+
+        const updated = await service.increment(counter.id, undefined, async () => {
+            if (!raced) {
+                raced = true;
+                await repository.update(counter.id, { value: 10, version: 1 });
+            }
+        });
+
+        expect(updated).toMatchObject({ value: 11, version: 3 });
+    });
+
+    it('makes a single attempt with retries: 0', async () => {
+        const repository = new InMemoryRepository<Counter>('Counter');
+        const service = new CounterService(repository, { retries: 0 });
+        const counter = await repository.create({ value: 0 });
+        let reads = 0;
+
+        const failure = service.increment(counter.id, undefined, async () => {
+            reads++;
+            await repository.update(counter.id, { value: 10, version: reads });
+        });
+
+        await expect(failure).rejects.toBeInstanceOf(ConcurrencyError);
+        expect(reads).toBe(1);
+        expect(await repository.findById(counter.id)).toMatchObject({ value: 10, version: 2 });
+    });
+
+    it('reads the entity within the caller tenant', async () => {
+        const repository = new InMemoryRepository<Counter>('Counter', { tenantIsolation: true });
+        const service = new CounterService(repository);
+        const context = { tenantId: 't1' as TenantId };
+        const counter = await repository.create({ value: 0 }, { context });
+
+        await expect(service.increment(counter.id, { context })).resolves.toMatchObject({ value: 1 });
+        const failure = service.increment(counter.id, { context: { tenantId: 't2' as TenantId } });
+        await expect(failure).rejects.toBeInstanceOf(NotFoundError);
+        await expect(failure).rejects.toThrow('Counter');
+    });
+});
+
+describe('BaseService events', () => {
+    const setup = (eventBus: IEventBus = createEventBus()) => {
+        const repository = new InMemoryRepository<Counter>('Counter');
+        const failures: Array<[string, unknown]> = [];
+        class ReportingCounterService extends CounterService {
+            protected override async onError(operation: string, error: unknown): Promise<void> {
+                failures.push([operation, error]);
+            }
+        }
+        const service = new ReportingCounterService(repository, { events: true, eventBus });
+        const published: DomainEvent[] = [];
+        eventBus.subscribeAll(event => {
+            published.push(event);
+        });
+        return { eventBus, repository, service, published, failures };
+    };
+
+    it('publishes lifecycle events after each successful operation', async () => {
+        const { eventBus, repository, service, published } = setup();
+        const stored: boolean[] = [];
+        eventBus.subscribe('entity.created', async event => {
+            stored.push(await repository.exists(event.aggregateId!));
+        });
+
+        const counter = await service.create({ value: 0 }, { context: { userId: 'u1' as UserId } });
+        await service.update(counter.id, { value: 1, version: 1 });
+        await service.delete(counter.id);
+
+        expect(stored).toEqual([true]);
+        expect(published.map(event => [event.type, event.aggregateId])).toEqual([
+            ['entity.created', counter.id],
+            ['entity.updated', counter.id],
+            ['entity.deleted', counter.id],
+        ]);
+        expect(published[0]).toMatchObject({ aggregateType: 'Counter', userId: 'u1', payload: { entity: { value: 0 } } });
+    });
+
+    it('publishes nothing for skipped events or failed operations', async () => {
+        const { service, published, failures } = setup();
+        const counter = await service.create({ value: 0 }, { skipEvents: true });
+
+        await expect(service.update(counter.id, { value: 1, version: 5 })).rejects.toBeInstanceOf(ConcurrencyError);
+
+        expect(published).toEqual([]);
+        expect(failures.map(([operation]) => operation)).toEqual(['update']);
+    });
+
+    it('reports publishing failures without failing the operation', async () => {
+        const eventBus = createEventBus();
+        eventBus.publish = async () => {
+            throw new Error('bus unavailable');
+        };
+        const { repository, service, failures } = setup(eventBus);
+
+        const counter = await service.create({ value: 0 });
+
+        expect(await repository.findById(counter.id)).toMatchObject({ value: 0 });
+        expect(failures).toEqual([['publishEvent', new Error('bus unavailable')]]);
+    });
+});
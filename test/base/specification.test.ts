@@ -0,0 +1,76 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    anyOf,
+    createSqlCompiler,
+    InMemoryRepository,
+    where,
+    type BaseEntity,
+    type ISpecification,
+    type TenantId,
+} from '../../src/index.js';
+
+interface Invoice extends BaseEntity {
+    number: string;
+    status: string | null;
+    total: number;
+}
+
+const invoices: Array<Pick<Invoice, 'number' | 'status' | 'total'>> = [
+    { number: 'A-1', status: 'open', total: 50 },
+    { number: 'A-2', status: 'paid', total: 500 },
+    { number: 'B-4', status: null, total: 0 },
+    { number: 'b-3', status: 'open', total: 900 },
+];
+
+const open = where<Invoice>('status').eq('open');
+const large = where<Invoice>('total').gte(100);
+
+describe('Specification', () => {
+    it('composes criteria from field predicates', () => {
+        expect(open.and(large.not()).toCriteria()).toEqual({
+            logic: 'AND',
+            groups: [
+                { conditions: [{ field: 'status', operator: 'eq', value: 'open' }] },
+                { groups: [{ conditions: [{ field: 'total', operator: 'gte', value: 100 }] }], not: true },
+            ],
+        });
+    });
+
+    it.each<[string, ISpecification<Invoice>]>([
+        ['and', open.and(large)],
+        ['or', anyOf(open, large)],
+        ['not over NULL', open.not()],
+        ['startsWith ignoring ASCII case', where<Invoice>('number').startsWith('b')],
+        ['in and between', where<Invoice>('status').in(['paid', 'void']).or(where<Invoice>('total').between(0, 10))],
+        ['isNull', where<Invoice>('status').isNull()],
+    ])('agrees with SQLite on %s', (_, specification) => {
+        const sqlite = new Database(':memory:');
+        sqlite.exec('CREATE TABLE invoices (number TEXT, status TEXT, total INTEGER)');
+        const insert = sqlite.prepare('INSERT INTO invoices VALUES (?, ?, ?)');
+        invoices.forEach(invoice => insert.run(invoice.number, invoice.status, invoice.total));
+        const { sql, params } = createSqlCompiler('sqlite').compileWhere(specification.toCriteria());
+
+        const selected = sqlite.prepare(`SELECT number FROM invoices ${sql} ORDER BY number`).all(...params);
+        const satisfied = invoices
+            .filter(invoice => specification.isSatisfiedBy(invoice as Invoice))
+            .map(invoice => ({ number: invoice.number }));
+
+        expect(satisfied).toEqual(selected);
+    });
+
+    it('finds and counts entities within the repository scope', async () => {
+        const repository = new InMemoryRepository<Invoice>('Invoice', { tenantIsolation: true });
+        const t1 = { context: { tenantId: 't1' as TenantId } };
+        for (const invoice of invoices) {
+            await repository.create(invoice, t1);
+        }
+        await repository.create({ number: 'C-1', status: 'open', total: 700 }, { context: { tenantId: 't2' as TenantId } });
+        const [deleted] = await repository.findBySpec(where<Invoice>('number').eq('b-3'), t1);
+        await repository.delete(deleted.id, t1);
+
+        expect((await repository.findBySpec(open, t1)).map(invoice => invoice.number)).toEqual(['A-1']);
+        expect(await repository.countBySpec(anyOf(open, large), t1)).toBe(2);
+        expect(await repository.countBySpec(anyOf(open, large), { ...t1, withDeleted: true })).toBe(3);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BusinessRuleError,
+    ConcurrencyError,
+    createEventBus,
+    createStateMachine,
+    InMemoryRepository,
+    type BaseEntity,
+    type StateMachineOptions,
+    type UserId,
+} from '../../src/index.js';
+
+interface Order extends BaseEntity {
+    status: 'draft' | 'paid' | 'shipped';
+    total: number;
+}
+
+const createMachine = (options?: StateMachineOptions) => createStateMachine<Order, Order['status']>({
+    field: 'status',
+    states: ['draft', 'paid', 'shipped'],
+    initial: 'draft',
+    final: ['shipped'],
+    transitions: [
+        { name: 'pay', from: 'draft', to: 'paid', guard: order => order.total > 0, guardDescription: 'total is positive' },
+        { name: 'ship', from: 'paid', to: 'shipped' },
+    ],
+}, options);
+
+describe('StateMachine', () => {
+    it('applies a transition that the repository then saves once', async () => {
+        const repository = new InMemoryRepository<Order>('Order');
+        const machine = createMachine();
+        const order = await repository.create({ status: 'draft', total: 10 });
+
+        const event = await machine.transition(order, 'pay', { context: { userId: 'u1' as UserId } });
+
+        expect(event.payload).toMatchObject({ transition: 'pay', from: 'draft', to: 'paid' });
+        expect(order).toMatchObject({ status: 'paid', version: 1, updatedBy: 'u1' });
+
+        const saved = await repository.update(order.id, order);
+        expect(saved).toMatchObject({ status: 'paid', version: 2 });
+    });
+
+    it('publishes the transition event only after the entity is saved', async () => {
+        const repository = new InMemoryRepository<Order>('Order');
+        const eventBus = createEventBus();
+        const machine = createMachine({ eventBus });
+        const order = await repository.create({ status: 'draft', total: 10 });
+        const seen: Array<string | undefined> = [];
+        eventBus.subscribe('state.transitioned', async () => {
+            seen.push((await repository.findById(order.id))?.status);
+        });
+
+        await machine.transition(order, 'pay');
+        expect(seen).toEqual([]);
+
+        const saved = await machine.transitionAndSave(order, 'ship', entity => repository.update(entity.id, entity));
+
+        expect(saved).toMatchObject({ status: 'shipped', version: 2 });
+        expect(seen).toEqual(['shipped']);
+    });
+
+    it('restores the state and publishes nothing when saving fails', async () => {
+        const repository = new InMemoryRepository<Order>('Order');
+        const eventBus = createEventBus();
+        const machine = createMachine({ eventBus });
+        const order = await repository.create({ status: 'draft', total: 10 });
+        await repository.update(order.id, { total: 20, version: 1 });
+        const published: unknown[] = [];
+        eventBus.subscribeAll(event => {
+            published.push(event);
+        });
+
+        await expect(machine.transitionAndSave(order, 'pay', entity => repository.update(entity.id, entity)))
+            .rejects.toBeInstanceOf(ConcurrencyError);
+
+        expect(order.status).toBe('draft');
+        expect(published).toEqual([]);
+    });
+
+    it('rejects transitions that are not allowed from the current state', async () => {
+        const machine = createMachine();
+        const order = { id: 'o1', status: 'draft', total: 10 } as Order;
+
+        await expect(machine.transition(order, 'ship')).rejects.toBeInstanceOf(BusinessRuleError);
+        expect(order.status).toBe('draft');
+    });
+
+    it('rejects transitions whose guard fails', async () => {
+        const machine = createMachine();
+        const order = { id: 'o1', status: 'draft', total: 0 } as Order;
+
+        expect(await machine.can(order, 'pay')).toBe(false);
+        await expect(machine.transition(order, 'pay')).rejects.toBeInstanceOf(BusinessRuleError);
+    });
+
+    it('lists the transitions available from the current state', () => {
+        const machine = createMachine();
+
+        expect(machine.getAvailableTransitions({ id: 'o1', status: 'paid', total: 1 } as Order)).toEqual(['ship']);
+        expect(machine.getAvailableTransitions({ id: 'o1', status: 'shipped', total: 1 } as Order)).toEqual([]);
+    });
+});
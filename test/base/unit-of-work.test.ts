@@ -0,0 +1,150 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    ConcurrencyError,
+    createD1Adapter,
+    NotFoundError,
+    createSqliteAdapter,
+    createUnitOfWork,
+    SqlTableMapper,
+    UnitOfWorkError,
+    type BaseEntity,
+    type DatabaseAdapter,
+} from '../../src/index.js';
+import { createTestD1 } from '../support/d1.js';
+
+const SCHEMA = [
+    'CREATE TABLE orders (id TEXT PRIMARY KEY, total INTEGER, version INTEGER)',
+    'CREATE TABLE lines (id TEXT PRIMARY KEY, orderId TEXT REFERENCES orders(id), version INTEGER)',
+    "INSERT INTO orders VALUES ('o1', 5, 1)",
+    "INSERT INTO lines VALUES ('l1', 'o1', 1)",
+];
+
+const row = (id: string, fields: Record<string, unknown>) => ({ id, ...fields }) as unknown as BaseEntity;
+
+const createUow = (adapter: DatabaseAdapter) => createUnitOfWork(adapter)
+    .register('Line', new SqlTableMapper('lines'), ['Order'])
+    .register('Order', new SqlTableMapper('orders'));
+
+const adapters: Array<[string, () => DatabaseAdapter]> = [
+    ['SQLite', () => {
+        const sqlite = new Database(':memory:');
+        sqlite.pragma('foreign_keys = ON');
+        SCHEMA.forEach(sql => sqlite.exec(sql));
+        return createSqliteAdapter(sqlite);
+    }],
+    ['D1', () => {
+        const { d1, sqlite } = createTestD1();
+        sqlite.pragma('foreign_keys = ON');
+        SCHEMA.forEach(sql => sqlite.exec(sql));
+        return createD1Adapter(d1);
+    }],
+];
+
+describe.each(adapters)('UnitOfWork on %s', (_, createAdapter) => {
+    it('writes parents before children and deletes children first', async () => {
+        const adapter = createAdapter();
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerNew(row('l2', { orderId: 'o2', version: 1 }), 'Line');
+        uow.registerNew(row('o2', { total: 1, version: 1 }), 'Order');
+        await uow.commit();
+
+        await uow.begin();
+        uow.registerDeleted(row('o1', { version: 1 }), 'Order');
+        uow.registerDeleted(row('l1', { version: 1 }), 'Line');
+        await uow.commit();
+
+        expect(await adapter.query('SELECT id FROM orders')).toEqual([{ id: 'o2' }]);
+        expect(await adapter.query('SELECT id FROM lines')).toEqual([{ id: 'l2' }]);
+    });
+
+    it('updates rows and bumps their version', async () => {
+        const adapter = createAdapter();
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerUpdated(row('o1', { total: 9, version: 1 }), 'Order');
+        await uow.commit();
+
+        expect(await adapter.query('SELECT * FROM orders')).toEqual([{ id: 'o1', total: 9, version: 2 }]);
+    });
+
+    it('rolls back every change when one fails', async () => {
+        const adapter = createAdapter();
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerNew(row('o2', { total: 1, version: 1 }), 'Order');
+        uow.registerNew(row('l2', { orderId: 'missing', version: 1 }), 'Line');
+
+        await expect(uow.commit()).rejects.toBeInstanceOf(UnitOfWorkError);
+        expect(uow.isActive()).toBe(false);
+        expect(await adapter.query('SELECT id FROM orders')).toEqual([{ id: 'o1' }]);
+    });
+
+    it('rejects a stale version and writes nothing', async () => {
+        const adapter = createAdapter();
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerNew(row('o2', { total: 1, version: 1 }), 'Order');
+        uow.registerUpdated(row('o1', { total: 9, version: 7 }), 'Order');
+
+        const error = await uow.commit().catch(failure => failure);
+
+        expect(error).toBeInstanceOf(UnitOfWorkError);
+        expect(error.failures[0].error).toBeInstanceOf(ConcurrencyError);
+        expect(error.failures[0].error).toMatchObject({ expectedVersion: 7, actualVersion: 1 });
+        expect(await adapter.query('SELECT * FROM orders')).toEqual([{ id: 'o1', total: 5, version: 1 }]);
+    });
+
+    it('rejects deleting a row that no longer exists', async () => {
+        const adapter = createAdapter();
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerDeleted(row('l9', { version: 1 }), 'Line');
+        uow.registerDeleted(row('l1', { version: 1 }), 'Line');
+
+        const error = await uow.commit().catch(failure => failure);
+
+        expect(error).toBeInstanceOf(UnitOfWorkError);
+        expect(error.failures[0].error).toBeInstanceOf(NotFoundError);
+        expect(await adapter.query('SELECT id FROM lines')).toEqual([{ id: 'l1' }]);
+    });
+
+    it('discards changes on rollback', async () => {
+        const adapter = createAdapter();
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerNew(row('o2', { total: 1, version: 1 }), 'Order');
+        await uow.rollback();
+
+        expect(uow.size).toBe(0);
+        expect(await adapter.query('SELECT id FROM orders')).toEqual([{ id: 'o1' }]);
+    });
+});
+
+describe('UnitOfWork version checks', () => {
+    it('stops at the first stale update and reports it', async () => {
+        const sqlite = new Database(':memory:');
+        SCHEMA.forEach(sql => sqlite.exec(sql));
+        const adapter = createSqliteAdapter(sqlite);
+        const uow = createUow(adapter);
+
+        await uow.begin();
+        uow.registerUpdated(row('o1', { total: 9, version: 7 }), 'Order');
+        uow.registerUpdated(row('l1', { orderId: 'o1', version: 1 }), 'Line');
+
+        const error = await uow.commit().catch(failure => failure);
+
+        expect(error).toBeInstanceOf(UnitOfWorkError);
+        expect(error.failures).toHaveLength(1);
+        expect(error.failures[0]).toMatchObject({ operation: 'update', entityType: 'Order', entityId: 'o1' });
+        expect(error.failures[0].error).toBeInstanceOf(ConcurrencyError);
+        expect(await adapter.query('SELECT version FROM lines')).toEqual([{ version: 1 }]);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+    CachedRepository,
+    Entity,
+    InMemoryCacheStore,
+    InMemoryRepository,
+    KVCacheStore,
+    type BaseEntity,
+    type IEntityFactory,
+} from '../../src/index.js';
+
+interface NoteData extends BaseEntity {
+    title: string;
+}
+
+class Note extends Entity {
+    public title: string;
+
+    constructor(data: Partial<NoteData> = {}) {
+        super(data);
+        this.title = data.title ?? '';
+    }
+
+    public validate(): void {
+        // Nothing to validate
+    }
+}
+
+const noteFactory: IEntityFactory<NoteData> = {
+    create: data => new Note(data),
+    createFromPlainObject: data => new Note(data as Partial<NoteData>),
+    getEntityType: () => 'Note',
+};
+
+const createKVNamespace = () => {
+    const values = new Map<string, string>();
+    return {
+        get: async (key: string) => values.get(key) ?? null,
+        put: async (key: string, value: string) => {
+            values.set(key, value);
+        },
+        delete: async (key: string) => {
+            values.delete(key);
+        },
+    } as unknown as KVNamespace;
+};
+
+describe('CachedRepository', () => {
+    it('keeps repositories sharing a store apart', async () => {
+        const store = new InMemoryCacheStore();
+        const notes = new InMemoryRepository<NoteData>('Note');
+        const drafts = new InMemoryRepository<NoteData>('Draft');
+        const cachedNotes = new CachedRepository(notes, store, { prefix: 'notes' });
+        const cachedDrafts = new CachedRepository(drafts, store, { prefix: 'drafts' });
+        await notes.create({ title: 'note' });
+        await drafts.create({ title: 'draft 1' });
+        await drafts.create({ title: 'draft 2' });
+
+        expect((await cachedNotes.list({ limit: 10 })).data).toMatchObject([{ title: 'note' }]);
+        expect((await cachedDrafts.list({ limit: 10 })).data).toMatchObject([{ title: 'draft 1' }, { title: 'draft 2' }]);
+        expect(cachedDrafts.getStats()).toMatchObject({ hits: 0, misses: 1 });
+    });
+
+    it('serves hits that do not alias the cached copy', async () => {
+        const repository = new InMemoryRepository<NoteData>('Note');
+        const cached = new CachedRepository(repository, new InMemoryCacheStore(), { prefix: 'notes' });
+        const note = await repository.create({ title: 'a' });
+
+        const miss = await cached.findById(note.id);
+        miss!.title = 'mutated';
+        const hit = await cached.findById(note.id);
+        hit!.title = 'mutated again';
+
+        expect(await cached.findById(note.id)).toMatchObject({ title: 'a' });
+        expect(cached.getStats()).toMatchObject({ hits: 2, misses: 1 });
+    });
+
+    it('rehydrates hits through the entity factory', async () => {
+        const repository = new InMemoryRepository<NoteData>('Note');
+        const cached = new CachedRepository(repository, new KVCacheStore(createKVNamespace()), {
+            prefix: 'notes',
+            factory: noteFactory,
+        });
+        const note = await repository.create({ title: 'a' });
+
+        await cached.findById(note.id);
+        const hit = await cached.findById(note.id);
+        await cached.list({ limit: 10 });
+        const listed = await cached.list({ limit: 10 });
+
+        expect(cached.getStats()).toMatchObject({ hits: 2, misses: 2 });
+        expect(hit).toBeInstanceOf(Note);
+        expect(hit).toMatchObject({ title: 'a', createdAt: note.createdAt });
+        expect(listed.data[0]).toBeInstanceOf(Note);
+    });
+});
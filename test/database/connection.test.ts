@@ -0,0 +1,137 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import { createD1Adapter, createSqliteAdapter, DatabaseError } from '../../src/index.js';
+import { createTestD1 } from '../support/d1.js';
+
+const names = (rows: Array<{ name: string }>) => rows.map(row => row.name);
+
+describe('createD1Adapter', () => {
+    const setup = () => {
+        const { d1, sqlite } = createTestD1();
+        sqlite.exec('CREATE TABLE items (id TEXT PRIMARY KEY, name TEXT)');
+        return { adapter: createD1Adapter(d1), sqlite };
+    };
+
+    it('runs statements with bound parameters', async () => {
+        const { adapter } = setup();
+
+        expect(await adapter.execute('INSERT INTO items VALUES (?, ?)', ['a', 'A'])).toEqual({ affectedRows: 1 });
+        expect(await adapter.query('SELECT name FROM items WHERE id = ?', ['a'])).toEqual([{ name: 'A' }]);
+    });
+
+    it('defers transaction writes to a single batch', async () => {
+        const { adapter, sqlite } = setup();
+
+        await adapter.transaction(async tx => {
+            expect(tx.deferredWrites).toBe(true);
+            expect(await tx.execute('INSERT INTO items VALUES (?, ?)', ['a', 'A'])).toEqual({ affectedRows: 0 });
+            expect(sqlite.prepare('SELECT COUNT(*) AS n FROM items').get()).toEqual({ n: 0 });
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['b', 'B']);
+        });
+
+        expect(names(await adapter.query('SELECT name FROM items ORDER BY id'))).toEqual(['A', 'B']);
+    });
+
+    it('rejects reads after the first queued write', async () => {
+        const { adapter } = setup();
+
+        await expect(adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['a', 'A']);
+            await tx.query('SELECT * FROM items');
+        })).rejects.toBeInstanceOf(DatabaseError);
+        expect(await adapter.query('SELECT * FROM items')).toEqual([]);
+    });
+
+    it('writes nothing when a batched statement fails', async () => {
+        const { adapter } = setup();
+
+        await expect(adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['a', 'A']);
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['a', 'duplicate']);
+        })).rejects.toBeInstanceOf(DatabaseError);
+        expect(await adapter.query('SELECT * FROM items')).toEqual([]);
+    });
+
+    it('fails the batch when a guarded write changes no rows', async () => {
+        const { adapter } = setup();
+        const stale = new Error('stale');
+
+        await expect(adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['a', 'A']);
+            await tx.requireChanges?.(async () => null);
+            await tx.execute('UPDATE items SET name = ? WHERE id = ?', ['B', 'missing']);
+            await tx.requireChanges?.(async () => stale);
+        })).rejects.toBe(stale);
+        expect(await adapter.query('SELECT * FROM items')).toEqual([]);
+    });
+
+    it('discards the writes of a nested transaction that fails', async () => {
+        const { adapter } = setup();
+
+        await adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['a', 'outer']);
+            await tx.transaction(async inner => {
+                await inner.execute('INSERT INTO items VALUES (?, ?)', ['b', 'inner']);
+                throw new Error('inner failure');
+            }).catch(() => undefined);
+            await tx.execute('INSERT INTO items VALUES (?, ?)', ['c', 'after']);
+        });
+
+        expect(names(await adapter.query('SELECT name FROM items ORDER BY id'))).toEqual(['outer', 'after']);
+    });
+});
+
+describe('createSqliteAdapter', () => {
+    const setup = () => {
+        const adapter = createSqliteAdapter(new Database(':memory:'));
+        return adapter.execute('CREATE TABLE items (id TEXT PRIMARY KEY, name TEXT, active INTEGER, createdAt TEXT)')
+            .then(() => adapter);
+    };
+
+    it('binds dates and booleans', async () => {
+        const adapter = await setup();
+        const createdAt = new Date('2024-03-01T10:00:00Z');
+
+        await adapter.execute('INSERT INTO items VALUES (?, ?, ?, ?)', ['a', 'A', true, createdAt]);
+
+        expect(await adapter.query('SELECT active, createdAt FROM items')).toEqual([
+            { active: 1, createdAt: createdAt.toISOString() },
+        ]);
+    });
+
+    it('rolls back a failed transaction', async () => {
+        const adapter = await setup();
+
+        await expect(adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items (id, name) VALUES (?, ?)', ['a', 'A']);
+            throw new Error('failure');
+        })).rejects.toThrow('failure');
+        expect(await adapter.query('SELECT * FROM items')).toEqual([]);
+    });
+
+    it('rolls back only the failed nested transaction', async () => {
+        const adapter = await setup();
+
+        await adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items (id, name) VALUES (?, ?)', ['a', 'outer']);
+            await tx.transaction(async inner => {
+                await inner.execute('INSERT INTO items (id, name) VALUES (?, ?)', ['b', 'inner']);
+                throw new Error('inner failure');
+            }).catch(() => undefined);
+        });
+
+        expect(names(await adapter.query('SELECT name FROM items'))).toEqual(['outer']);
+    });
+
+    it('serializes concurrent top-level transactions', async () => {
+        const adapter = await setup();
+        const write = (id: string) => adapter.transaction(async tx => {
+            await tx.execute('INSERT INTO items (id, name) VALUES (?, ?)', [id, id]);
+            await Promise.resolve();
+            return id;
+        });
+
+        expect(await Promise.all([write('a'), write('b')])).toEqual(['a', 'b']);
+        expect(names(await adapter.query('SELECT name FROM items ORDER BY id'))).toEqual(['a', 'b']);
+    });
+});
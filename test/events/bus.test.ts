@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createDomainEvent, createEventBus, type DomainEvent } from '../../src/index.js';
+
+type OrderEvents = {
+    'order.placed': { id: string };
+    'order.cancelled': { id: string };
+};
+
+describe('EventBus', () => {
+    it('delivers events to type and wildcard subscribers in subscription order', async () => {
+        const bus = createEventBus<OrderEvents>();
+        const seen: string[] = [];
+        bus.subscribe('order.placed', event => {
+            seen.push(`placed:${event.payload.id}`);
+        });
+        bus.subscribeAll(event => {
+            seen.push(`all:${event.type}`);
+        });
+
+        await bus.publish([createDomainEvent('order.placed', { id: 'o1' }), createDomainEvent('order.cancelled', { id: 'o1' })]);
+
+        expect(seen).toEqual(['placed:o1', 'all:order.placed', 'all:order.cancelled']);
+        expect(bus.listenerCount('order.placed')).toBe(2);
+    });
+
+    it('stops delivering to unsubscribed handlers', async () => {
+        const bus = createEventBus<OrderEvents>();
+        const seen: string[] = [];
+        const unsubscribe = bus.subscribe('order.placed', event => {
+            seen.push(event.payload.id);
+        });
+
+        await bus.publish(createDomainEvent('order.placed', { id: 'o1' }));
+        unsubscribe();
+        await bus.publish(createDomainEvent('order.placed', { id: 'o2' }));
+
+        expect(seen).toEqual(['o1']);
+    });
+
+    it('reports failing handlers without skipping the remaining ones', async () => {
+        const failures: Array<[unknown, DomainEvent]> = [];
+        const bus = createEventBus<OrderEvents>({
+            onError: (error, event) => {
+                failures.push([error, event]);
+                throw new Error('reporter failed');
+            },
+        });
+        const seen: string[] = [];
+        bus.subscribe('order.placed', () => {
+            throw new Error('handler failed');
+        });
+        bus.subscribe('order.placed', event => {
+            seen.push(event.payload.id);
+        });
+        const event = createDomainEvent('order.placed', { id: 'o1' });
+
+        await bus.publish(event);
+
+        expect(seen).toEqual(['o1']);
+        expect(failures).toEqual([[new Error('handler failed'), event]]);
+    });
+});
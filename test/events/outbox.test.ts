@@ -0,0 +1,70 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    createDomainEvent,
+    createOutboxMigration,
+    createSqliteAdapter,
+    OutboxRelay,
+    TransactionalOutbox,
+    type DatabaseAdapter,
+    type DomainEvent,
+} from '../../src/index.js';
+
+const setup = async () => {
+    const adapter = createSqliteAdapter(new Database(':memory:'));
+    await migrate(adapter);
+    await adapter.execute('CREATE TABLE orders (id TEXT PRIMARY KEY)');
+    return { adapter, outbox: new TransactionalOutbox(adapter) };
+};
+
+const migrate = async (adapter: DatabaseAdapter) => {
+    for (const statement of createOutboxMigration().up) {
+        await adapter.execute(statement);
+    }
+};
+
+describe('TransactionalOutbox', () => {
+    it('has a migration that can be applied more than once', async () => {
+        const { adapter } = await setup();
+
+        await migrate(adapter);
+
+        expect(createOutboxMigration({ dialect: 'mysql' }).up).toHaveLength(1);
+    });
+
+    it('writes events with the change and discards them on rollback', async () => {
+        const { adapter, outbox } = await setup();
+
+        await outbox.transaction(async (tx, record) => {
+            await tx.execute("INSERT INTO orders VALUES ('o1')");
+            record(createDomainEvent('order.placed', { id: 'o1' }));
+        });
+        await expect(outbox.transaction(async (tx, record) => {
+            await tx.execute("INSERT INTO orders VALUES ('o2')");
+            record(createDomainEvent('order.placed', { id: 'o2' }));
+            throw new Error('failure');
+        })).rejects.toThrow('failure');
+
+        expect(await adapter.query('SELECT id FROM orders')).toEqual([{ id: 'o1' }]);
+        expect((await outbox.list('pending')).map(message => message.event.payload)).toEqual([{ id: 'o1' }]);
+    });
+
+    it('relays pending events and dead-letters ones that keep failing', async () => {
+        const { outbox } = await setup();
+        await outbox.transaction(async (_tx, record) => {
+            record([createDomainEvent('order.placed', { id: 'ok' }), createDomainEvent('order.placed', { id: 'bad' })]);
+        });
+        const delivered: DomainEvent[] = [];
+        const relay = new OutboxRelay(outbox, async event => {
+            if ((event.payload as { id: string }).id === 'bad') {
+                throw new Error('unreachable');
+            }
+            delivered.push(event);
+        }, { maxAttempts: 2, attemptsPerDrain: 2, delay: 0 });
+
+        expect(await relay.drain()).toEqual({ published: 1, failed: 0, deadLettered: 1 });
+        expect(delivered.map(event => event.payload)).toEqual([{ id: 'ok' }]);
+        expect(await relay.drain()).toEqual({ published: 0, failed: 0, deadLettered: 0 });
+        expect((await outbox.list('dead_letter')).map(message => message.lastError)).toEqual(['unreachable']);
+    });
+});
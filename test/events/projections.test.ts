@@ -0,0 +1,75 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    createDomainEvent,
+    createProjectionCheckpointMigration,
+    createSqliteAdapter,
+    InMemoryEventStore,
+    ProjectionRunner,
+    type EntityId,
+    type Projection,
+} from '../../src/index.js';
+
+const setup = async () => {
+    const adapter = createSqliteAdapter(new Database(':memory:'));
+    for (const statement of createProjectionCheckpointMigration().up) {
+        await adapter.execute(statement);
+    }
+    const store = new InMemoryEventStore();
+    await store.append('o1' as EntityId, [createDomainEvent('order.placed', { id: 'o1', total: 5 })], 0);
+    await store.append('o2' as EntityId, [createDomainEvent('order.placed', { id: 'o2', total: 7 })], 0);
+    return { adapter, store };
+};
+
+const createOrderTotals = (fail = false): Projection => ({
+    name: 'order-totals',
+    table: 'order_totals',
+    handlers: {
+        'order.placed': async (event, { db, table }) => {
+            const { id, total } = event.payload as { id: string; total: number };
+            if (fail && id === 'o2') {
+                throw new Error('projection failed');
+            }
+            await db.execute(`INSERT INTO ${table} (id, total) VALUES (?, ?)`, [id, total]);
+        },
+    },
+    setup: async ({ db, table }) => {
+        await db.execute(`CREATE TABLE ${table} (id TEXT PRIMARY KEY, total INTEGER)`);
+    },
+});
+
+const tables = (adapter: ReturnType<typeof createSqliteAdapter>) =>
+    adapter.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'order_totals%'");
+
+describe('ProjectionRunner', () => {
+    it('applies new events and advances the checkpoint', async () => {
+        const { adapter, store } = await setup();
+        const projection = createOrderTotals();
+        await projection.setup?.({ db: adapter, table: '"order_totals"', tableName: 'order_totals' });
+        const runner = new ProjectionRunner(adapter, store).register(projection);
+
+        expect(await runner.run()).toEqual([{ projection: 'order-totals', processed: 2, position: 2 }]);
+        expect(await runner.run('order-totals')).toEqual([{ projection: 'order-totals', processed: 0, position: 2 }]);
+        expect(await adapter.query('SELECT total FROM order_totals ORDER BY id')).toEqual([{ total: 5 }, { total: 7 }]);
+    });
+
+    it('rebuilds a projection into a fresh table and swaps it in', async () => {
+        const { adapter, store } = await setup();
+        const runner = new ProjectionRunner(adapter, store).register(createOrderTotals());
+
+        expect(await runner.rebuild('order-totals')).toEqual({ projection: 'order-totals', processed: 2, position: 2 });
+        expect(await tables(adapter)).toEqual([{ name: 'order_totals' }]);
+        expect(await runner.getCheckpoint('order-totals')).toBe(2);
+    });
+
+    it('drops the rebuild table and keeps the live one when the rebuild fails', async () => {
+        const { adapter, store } = await setup();
+        await new ProjectionRunner(adapter, store).register(createOrderTotals()).rebuild('order-totals');
+        const runner = new ProjectionRunner(adapter, store).register(createOrderTotals(true));
+
+        await expect(runner.rebuild('order-totals')).rejects.toThrow('projection failed');
+
+        expect(await tables(adapter)).toEqual([{ name: 'order_totals' }]);
+        expect(await adapter.query('SELECT total FROM order_totals ORDER BY id')).toEqual([{ total: 5 }, { total: 7 }]);
+    });
+});
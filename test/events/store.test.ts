@@ -0,0 +1,70 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import {
+    ConcurrencyError,
+    createDomainEvent,
+    createEventStoreMigration,
+    createSqliteAdapter,
+    SqlEventStore,
+    type DatabaseAdapter,
+    type EntityId,
+} from '../../src/index.js';
+
+const streamId = 'order-1' as EntityId;
+
+const migrate = async (adapter: DatabaseAdapter) => {
+    for (const statement of createEventStoreMigration().up) {
+        await adapter.execute(statement);
+    }
+};
+
+const setup = async () => {
+    const adapter = createSqliteAdapter(new Database(':memory:'));
+    await migrate(adapter);
+    return { adapter, store: new SqlEventStore(adapter) };
+};
+
+describe('SqlEventStore', () => {
+    it('has a migration that can be applied more than once', async () => {
+        const { adapter } = await setup();
+
+        await migrate(adapter);
+
+        expect(createEventStoreMigration({ dialect: 'mysql' }).up[0])
+            .toContain('UNIQUE INDEX `idx_event_store_stream` (`streamId`, `version`)');
+    });
+
+    it('appends events with consecutive versions and reads them back', async () => {
+        const { store } = await setup();
+
+        await store.append(streamId, [createDomainEvent('order.placed', { total: 5 })], 0);
+        const appended = await store.append(streamId, [
+            createDomainEvent('order.paid', { amount: 5 }),
+            createDomainEvent('order.shipped', {}),
+        ], 1);
+
+        expect(appended.map(event => [event.type, event.version])).toEqual([['order.paid', 2], ['order.shipped', 3]]);
+        expect((await store.readStream(streamId, { fromVersion: 2 })).map(event => event.payload)).toEqual([{ amount: 5 }, {}]);
+        expect(await store.getStreamVersion(streamId)).toBe(3);
+    });
+
+    it('rejects an append expecting a stale version', async () => {
+        const { store } = await setup();
+        await store.append(streamId, [createDomainEvent('order.placed', {})], 0);
+
+        const error = await store.append(streamId, [createDomainEvent('order.cancelled', {})], 0).catch(failure => failure);
+
+        expect(error).toBeInstanceOf(ConcurrencyError);
+        expect(error).toMatchObject({ expectedVersion: 0, actualVersion: 1 });
+        expect(await store.getStreamVersion(streamId)).toBe(1);
+    });
+
+    it('keeps versions unique per stream', async () => {
+        const { adapter, store } = await setup();
+        await store.append(streamId, [createDomainEvent('order.placed', {})], 0);
+
+        await expect(adapter.execute(
+            "INSERT INTO _event_store (id, streamId, version, type, traceId, occurredAt) VALUES ('dup', 'order-1', 1, 'x', 't', '')"
+        )).rejects.toThrow(/UNIQUE/);
+    });
+});
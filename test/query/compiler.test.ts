@@ -0,0 +1,108 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import { createSqlCompiler, ValidationError, type FilterCriteria } from '../../src/index.js';
+
+describe('SqlCompiler', () => {
+    it('quotes identifiers for the dialect', () => {
+        expect(createSqlCompiler('sqlite').quoteIdentifier('users.name')).toBe('"users"."name"');
+        expect(createSqlCompiler('mysql').quoteIdentifier('name')).toBe('`name`');
+    });
+
+    it.each(['a; DROP TABLE x', 'a"b', 'a.b.c', '1a', ''])('rejects the identifier %j', name => {
+        expect(() => createSqlCompiler('postgres').quoteIdentifier(name)).toThrow(ValidationError);
+    });
+
+    it('binds every value as a parameter', () => {
+        const compiled = createSqlCompiler('sqlite').compileWhere({
+            conditions: [
+                { field: 'name', operator: 'eq', value: "x' OR 1=1 --" },
+                { field: 'age', operator: 'between', values: [18, 65] },
+                { field: 'deletedAt', operator: 'eq', value: null },
+            ],
+        });
+
+        expect(compiled).toEqual({
+            sql: 'WHERE "name" = ? AND "age" BETWEEN ? AND ? AND "deletedAt" IS NULL',
+            params: ["x' OR 1=1 --", 18, 65],
+        });
+    });
+
+    it('numbers postgres placeholders from the offset across WHERE and LIMIT', () => {
+        const compiled = createSqlCompiler('postgres').compile({
+            filter: {
+                conditions: [{ field: 'status', operator: 'in', values: ['a', 'b'] }],
+                groups: [{ logic: 'OR', conditions: [{ field: 'age', operator: 'gt', value: 1 }, { field: 'age', operator: 'lt', value: 0 }] }],
+            },
+            sort: [{ field: 'name', direction: 'ASC', nulls: 'LAST' }],
+            limit: 10,
+            page: 3,
+        }, 2);
+
+        expect(compiled).toEqual({
+            sql: 'WHERE "status" IN ($3, $4) AND ("age" > $5 OR "age" < $6) ORDER BY "name" ASC NULLS LAST LIMIT $7 OFFSET $8',
+            params: ['a', 'b', 1, 0, 10, 20],
+        });
+    });
+
+    describe('LIKE operators', () => {
+        it('escapes wildcards in the value', () => {
+            const compiled = createSqlCompiler('sqlite').compileWhere({
+                conditions: [{ field: 'name', operator: 'contains', value: '50%_off\\' }],
+            });
+
+            expect(compiled).toEqual({ sql: `WHERE "name" LIKE ? ESCAPE '\\'`, params: ['%50\\%\\_off\\\\%'] });
+        });
+
+        it('writes the escape character as a MySQL string literal', () => {
+            const compiled = createSqlCompiler('mysql').compileWhere({
+                conditions: [{ field: 'name', operator: 'startsWith', value: 'a_' }],
+            });
+
+            expect(compiled).toEqual({ sql: "WHERE `name` LIKE ? ESCAPE '\\\\'", params: ['a\\_%'] });
+        });
+
+        it('matches wildcards literally when run', () => {
+            const sqlite = new Database(':memory:');
+            sqlite.exec("CREATE TABLE items (name TEXT); INSERT INTO items VALUES ('50% off'), ('50 off'), ('a_b'), ('axb')");
+            const compiler = createSqlCompiler('sqlite');
+            const names = (criteria: FilterCriteria) => {
+                const { sql, params } = compiler.compileWhere(criteria);
+                return sqlite.prepare(`SELECT name FROM items ${sql} ORDER BY name`).all(...params);
+            };
+
+            expect(names({ conditions: [{ field: 'name', operator: 'contains', value: '0%' }] })).toEqual([{ name: '50% off' }]);
+            expect(names({ conditions: [{ field: 'name', operator: 'endsWith', value: '_b' }] })).toEqual([{ name: 'a_b' }]);
+        });
+    });
+
+    it('compiles empty in/notIn lists to constant conditions', () => {
+        const compiled = createSqlCompiler('sqlite').compileWhere({
+            conditions: [
+                { field: 'id', operator: 'in', values: [] },
+                { field: 'id', operator: 'notIn', values: [] },
+            ],
+        });
+
+        expect(compiled).toEqual({ sql: 'WHERE 1 = 0 AND 1 = 1', params: [] });
+    });
+
+    describe('columns allowlist', () => {
+        const compiler = createSqlCompiler('sqlite', { columns: { name: 'full_name' } });
+
+        it('maps allowed fields to their columns', () => {
+            expect(compiler.compileOrderBy([{ field: 'name', direction: 'DESC' }]).sql).toBe('ORDER BY "full_name" DESC');
+        });
+
+        it.each(['full_name', 'password', 'constructor'])('rejects the field %j', field => {
+            expect(() => compiler.compileWhere({ conditions: [{ field, operator: 'isNull' }] })).toThrow(ValidationError);
+        });
+    });
+
+    it('rejects invalid sort directions and pagination', () => {
+        const compiler = createSqlCompiler('sqlite', { maxLimit: 50 });
+
+        expect(() => compiler.compileOrderBy([{ field: 'name', direction: 'ASC; DROP' as 'ASC' }])).toThrow(ValidationError);
+        expect(() => compiler.compilePagination({ limit: 51 })).toThrow(ValidationError);
+        expect(() => compiler.compilePagination({ limit: 10, offset: -1 })).toThrow(ValidationError);
+    });
+});
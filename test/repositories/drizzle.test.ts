@@ -0,0 +1,268 @@
+import { drizzle } from 'drizzle-orm/d1';
+import { integer, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { describe, expect, it, vi } from 'vitest';
+import {
+    BusinessRuleError,
+    ConflictError,
+    createRelationRegistry,
+    DrizzleRepository,
+    ForbiddenError,
+} from '../../src/index.js';
+import type { EntityId, TenantId } from '../../src/index.js';
+import { createTestD1 } from '../support/d1.js';
+
+const products = sqliteTable('products', {
+    id: text('id').primaryKey(),
+    tenantId: text('tenant_id'),
+    sku: text('sku').notNull(),
+    name: text('name').notNull(),
+    releasedAt: integer('released_at', { mode: 'timestamp' }),
+    version: integer('version').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }),
+}, table => [
+    uniqueIndex('products_sku').on(table.sku),
+    uniqueIndex('products_name_released').on(table.name, table.releasedAt),
+]);
+
+const SCHEMA = `
+    CREATE TABLE products (
+        id TEXT PRIMARY KEY,
+        tenant_id TEXT,
+        sku TEXT NOT NULL,
+        name TEXT NOT NULL,
+        released_at INTEGER,
+        version INTEGER NOT NULL,
+        created_at INTEGER,
+        updated_at INTEGER
+    );
+    CREATE UNIQUE INDEX products_sku ON products (sku);
+    CREATE UNIQUE INDEX products_name_released ON products (name, released_at);
+`;
+
+const acme = { tenantId: 'acme' as TenantId };
+const globex = { tenantId: 'globex' as TenantId };
+
+const setup = (config: ConstructorParameters<typeof DrizzleRepository>[2] = {}) => {
+    const { d1, sqlite } = createTestD1();
+    sqlite.exec(SCHEMA);
+    const batch = vi.spyOn(d1, 'batch');
+    const repository = new DrizzleRepository(products, drizzle(d1), { timestamps: true, ...config });
+    return { repository, sqlite, batch };
+};
+
+const items = (count: number) => Array.from({ length: count }, (_, index) => ({ sku: `sku-${index}`, name: `Product ${index}` }));
+
+describe('DrizzleRepository', () => {
+    it('creates, reads and updates rows', async () => {
+        const { repository } = setup();
+
+        const created = await repository.create({ sku: 'a', name: 'Anvil' });
+        expect(created).toMatchObject({ sku: 'a', name: 'Anvil', version: 1 });
+        expect(created.createdAt).toBeInstanceOf(Date);
+
+        const updated = await repository.update(created.id, { name: 'Big anvil' }, { expectedVersion: 1 });
+        expect(updated).toMatchObject({ name: 'Big anvil', version: 2 });
+        expect(await repository.findById(created.id)).toEqual(updated);
+    });
+
+    it('maps unique constraint failures to ConflictError', async () => {
+        const { repository } = setup();
+        await repository.create({ sku: 'a', name: 'Anvil' });
+
+        const error = await repository.create({ sku: 'a', name: 'Other' }).catch(failure => failure);
+
+        expect(error).toBeInstanceOf(ConflictError);
+        expect(error).toMatchObject({ conflictType: 'UNIQUE_VIOLATION', conflictingValue: ['sku'] });
+    });
+
+    describe('bulk writes', () => {
+        // 8 columns: 12 rows per insert statement within the 100 bound parameter limit (6 values per row here)
+        it('sizes insert statements to the bound parameter limit', async () => {
+            const { repository, batch } = setup();
+
+            const result = await repository.createMany(items(25), { batchSize: 1000 });
+
+            expect(result.succeeded).toHaveLength(25);
+            const statements = batch.mock.calls[0][0] as unknown as Array<{ params: unknown[] }>;
+            expect(statements.map(statement => statement.params.length)).toEqual([72, 72, 6]);
+        });
+
+        it('splits statements into batches of at most 50', async () => {
+            const { repository, batch, sqlite } = setup();
+
+            // 612 rows: 51 statements of 12 rows
+            const result = await repository.createMany(items(612), { batchSize: 1000 });
+
+            expect(result.succeeded).toHaveLength(612);
+            expect(batch.mock.calls.map(([statements]) => statements.length)).toEqual([50]);
+            expect(sqlite.prepare('SELECT COUNT(*) AS n FROM products').get()).toEqual({ n: 612 });
+        });
+
+        it('honours configured limits', async () => {
+            const { repository, batch } = setup({ maxBoundParameters: 16, maxBatchStatements: 2 });
+
+            await repository.createMany(items(5), { batchSize: 1000 });
+
+            expect(batch.mock.calls.map(([statements]) => statements.length)).toEqual([2]);
+        });
+    });
+
+    describe('upsert', () => {
+        it('updates the row matching the conflict fields', async () => {
+            const { repository } = setup();
+            const created = await repository.create({ sku: 'a', name: 'Anvil' });
+
+            const upserted = await repository.upsert({ sku: 'a', name: 'Renamed' }, { conflictFields: ['sku'] });
+
+            expect(upserted).toMatchObject({ id: created.id, name: 'Renamed', version: 2 });
+        });
+
+        it('leaves rows of another tenant untouched', async () => {
+            const { repository, sqlite } = setup({ tenantIsolation: true });
+            await repository.create({ sku: 'a', name: 'Anvil' }, { context: acme });
+
+            const result = await repository.upsertMany([{ sku: 'a', name: 'Hijacked' }], {
+                conflictFields: ['sku'],
+                context: globex,
+            });
+
+            expect(result.succeeded).toEqual([]);
+            expect(result.failed[0].error).toBeInstanceOf(ForbiddenError);
+            expect(sqlite.prepare('SELECT tenant_id, name FROM products').all()).toEqual([
+                { tenant_id: 'acme', name: 'Anvil' },
+            ]);
+        });
+
+        it('matches upserted rows on date conflict fields', async () => {
+            const { repository } = setup();
+            const releasedAt = new Date('2024-03-01T10:00:00.250Z');
+            const existing = await repository.create({ sku: 'a', name: 'Anvil', releasedAt });
+
+            const result = await repository.upsertMany([
+                { sku: 'a', name: 'Anvil', releasedAt },
+                { sku: 'b', name: 'Bucket', releasedAt },
+            ], { conflictFields: ['name', 'releasedAt'] });
+
+            expect(result.failed).toEqual([]);
+            expect(result.succeeded.map(item => item.id)).toEqual([existing.id, expect.any(String)]);
+            expect(result.succeeded[0].entity).toMatchObject({ version: 2 });
+        });
+    });
+
+    describe('cascading deletes', () => {
+        const authors = sqliteTable('authors', {
+            id: text('id').primaryKey(),
+            name: text('name').notNull(),
+            deletedAt: integer('deleted_at', { mode: 'timestamp_ms' }),
+        });
+        const posts = sqliteTable('posts', {
+            id: text('id').primaryKey(),
+            authorId: text('author_id').notNull(),
+            deletedAt: integer('deleted_at', { mode: 'timestamp_ms' }),
+        });
+        const comments = sqliteTable('comments', {
+            id: text('id').primaryKey(),
+            postId: text('post_id').notNull(),
+            deletedAt: integer('deleted_at', { mode: 'timestamp_ms' }),
+        });
+        const invoices = sqliteTable('invoices', {
+            id: text('id').primaryKey(),
+            authorId: text('author_id').notNull(),
+        });
+
+        // Runs `between` once the cascade is planned, before it is written
+        class PostRepository extends DrizzleRepository<typeof posts> {
+            between = () => {};
+
+            protected override async beforeDeleteMany(): Promise<void> {
+                this.between();
+            }
+        }
+
+        const setupCascade = (softDelete = false) => {
+            const { d1, sqlite } = createTestD1();
+            sqlite.exec(`
+                CREATE TABLE authors (id TEXT PRIMARY KEY, name TEXT NOT NULL, deleted_at INTEGER);
+                CREATE TABLE posts (id TEXT PRIMARY KEY, author_id TEXT NOT NULL, deleted_at INTEGER);
+                CREATE TABLE comments (id TEXT PRIMARY KEY, post_id TEXT NOT NULL, deleted_at INTEGER);
+                CREATE TABLE invoices (id TEXT PRIMARY KEY, author_id TEXT NOT NULL);
+                INSERT INTO authors (id, name) VALUES ('a1', 'Ada'), ('a2', 'Grace');
+                INSERT INTO posts (id, author_id) VALUES ('p1', 'a1'), ('p2', 'a2');
+                INSERT INTO comments (id, post_id) VALUES ('c1', 'p1'), ('c2', 'p2');
+            `);
+
+            const db = drizzle(d1);
+            const relations = createRelationRegistry();
+            const config = { relations, softDelete, timestamps: false };
+            const repositories = {
+                authors: new DrizzleRepository(authors, db, config),
+                posts: new PostRepository(posts, db, config),
+                comments: new DrizzleRepository(comments, db, config),
+                invoices: new DrizzleRepository(invoices, db, { ...config, softDelete: false }),
+            };
+            relations
+                .oneToMany(repositories.authors, 'posts', repositories.posts, { foreignKey: 'authorId' })
+                .oneToMany(repositories.authors, 'invoices', repositories.invoices, { foreignKey: 'authorId', onDelete: 'restrict' })
+                .oneToMany(repositories.posts, 'comments', repositories.comments, { foreignKey: 'postId' });
+
+            const ids = (table: string, where = '') => (sqlite.prepare(`SELECT id FROM ${table} ${where} ORDER BY id`).all() as Array<{ id: string }>)
+                .map(row => row.id);
+            return { ...repositories, sqlite, batch: vi.spyOn(d1, 'batch'), ids };
+        };
+
+        it('deletes dependants added after planning in the same batch', async () => {
+            const { authors, posts, sqlite, batch, ids } = setupCascade();
+            posts.between = () => sqlite.exec(`
+                INSERT INTO posts (id, author_id) VALUES ('p3', 'a1');
+                INSERT INTO comments (id, post_id) VALUES ('c3', 'p3'), ('c4', 'p1');
+            `);
+
+            await authors.delete('a1' as EntityId, { cascade: true });
+
+            expect(batch).toHaveBeenCalledTimes(1);
+            expect(ids('authors')).toEqual(['a2']);
+            expect(ids('posts')).toEqual(['p2']);
+            expect(ids('comments')).toEqual(['c2']);
+        });
+
+        it('soft deletes dependants added after planning', async () => {
+            const { authors, posts, sqlite, ids } = setupCascade(true);
+            posts.between = () => sqlite.exec(`INSERT INTO comments (id, post_id) VALUES ('c3', 'p1')`);
+
+            await authors.delete('a1' as EntityId, { cascade: true });
+
+            expect(ids('posts', 'WHERE deleted_at IS NULL')).toEqual(['p2']);
+            expect(ids('comments', 'WHERE deleted_at IS NULL')).toEqual(['c2']);
+        });
+
+        it('rejects the delete when a restricted dependant appears after planning', async () => {
+            const { authors, posts, sqlite, ids } = setupCascade();
+            posts.between = () => sqlite.exec(`INSERT INTO invoices (id, author_id) VALUES ('i1', 'a1')`);
+
+            await expect(authors.delete('a1' as EntityId, { cascade: true })).rejects.toBeInstanceOf(BusinessRuleError);
+
+            expect(ids('authors')).toEqual(['a1', 'a2']);
+            expect(ids('posts')).toEqual(['p1', 'p2']);
+            expect(ids('comments')).toEqual(['c1', 'c2']);
+        });
+
+        it('keeps statements within the bound parameter limit', async () => {
+            const { authors, sqlite, batch, ids } = setupCascade();
+            const insert = sqlite.prepare('INSERT INTO authors (id, name) VALUES (?, ?)');
+            for (let index = 0; index < 150; index++) {
+                insert.run(`bulk-${index}`, 'Bulk');
+            }
+
+            const result = await authors.deleteMany(
+                { conditions: [{ field: 'name', operator: 'eq', value: 'Bulk' }] },
+                { cascade: true, batchSize: 150 }
+            );
+
+            expect(result.succeeded).toHaveLength(150);
+            const statements = batch.mock.calls[0][0] as unknown as Array<{ params: unknown[] }>;
+            expect(Math.max(...statements.map(statement => statement.params.length))).toBeLessThanOrEqual(100);
+            expect(ids('authors')).toEqual(['a1', 'a2']);
+        });
+    });
+});
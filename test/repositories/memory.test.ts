@@ -0,0 +1,414 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BusinessRuleError,
+    ConcurrencyError,
+    ConflictError,
+    createRelationRegistry,
+    createRetentionJob,
+    ForbiddenError,
+    InMemoryRepository,
+    NotFoundError,
+    ValidationError,
+    type BaseEntity,
+    type BulkOptions,
+    type CreateOptions,
+    type EntityId,
+    type FilterOperator,
+    type TenantId,
+    type UpdateOptions,
+} from '../../src/index.js';
+
+interface Doc extends BaseEntity {
+    title: string;
+    authorId?: string;
+}
+
+const byTitle = (operator: FilterOperator, value: string) => ({ conditions: [{ field: 'title', operator, value }] });
+
+describe('InMemoryRepository', () => {
+    it('creates, finds, lists and searches entities', async () => {
+        const repository = new InMemoryRepository<Doc>('Doc', { searchFields: ['title'] });
+        const doc = await repository.create({ title: 'draft' });
+        await repository.create({ title: 'final' });
+
+        expect(doc).toMatchObject({ title: 'draft', version: 1 });
+        expect(await repository.findById(doc.id)).toMatchObject({ id: doc.id, title: 'draft' });
+        expect((await repository.list({ sort: [{ field: 'title', direction: 'DESC' }], limit: 1 })).data)
+            .toMatchObject([{ title: 'final' }]);
+        expect((await repository.search({ query: 'raf' })).data).toMatchObject([{ title: 'draft' }]);
+    });
+
+    it('returns copies that do not alias stored entities', async () => {
+        const repository = new InMemoryRepository<Doc>('Doc');
+        const doc = await repository.create({ title: 'a' });
+
+        doc.title = 'mutated';
+
+        expect(await repository.findById(doc.id)).toMatchObject({ title: 'a' });
+    });
+
+    it('rejects stale and unversioned updates with optimistic locking', async () => {
+        const repository = new InMemoryRepository<Doc>('Doc');
+        const doc = await repository.create({ title: 'draft' });
+
+        expect(await repository.update(doc.id, { title: 'final', version: 1 })).toMatchObject({ title: 'final', version: 2 });
+        await expect(repository.update(doc.id, { title: 'stale', version: 1 })).rejects.toBeInstanceOf(ConcurrencyError);
+        await expect(repository.update(doc.id, { title: 'unversioned' })).rejects.toBeInstanceOf(ValidationError);
+        expect(await repository.update(doc.id, { title: 'expected' }, { expectedVersion: 2 })).toMatchObject({ version: 3 });
+        expect(await repository.findById(doc.id)).toMatchObject({ title: 'expected' });
+    });
+
+    describe('tenant isolation', () => {
+        const t1 = { context: { tenantId: 't1' as TenantId } };
+        const t2 = { context: { tenantId: 't2' as TenantId } };
+
+        it('hides and protects entities of other tenants', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc', { tenantIsolation: true });
+            const doc = await repository.create({ title: 'a' }, t1);
+
+            expect(doc.tenantId).toBe('t1');
+            expect(await repository.findById(doc.id, t2)).toBeNull();
+            expect(await repository.count(undefined, t2)).toBe(0);
+            await expect(repository.update(doc.id, { title: 'b', version: 1 }, t2)).rejects.toBeInstanceOf(ForbiddenError);
+            await expect(repository.delete(doc.id, t2)).rejects.toBeInstanceOf(ForbiddenError);
+            expect(await repository.findById(doc.id, t1)).toMatchObject({ title: 'a' });
+        });
+
+        it('requires a tenant and refuses writes on behalf of another one', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc', { tenantIsolation: true });
+            const doc = await repository.create({ title: 'a' }, t1);
+
+            await expect(repository.create({ title: 'b' })).rejects.toBeInstanceOf(ForbiddenError);
+            await expect(repository.create({ title: 'b', tenantId: 't2' as TenantId }, t1)).rejects.toBeInstanceOf(ForbiddenError);
+            await expect(repository.update(doc.id, { tenantId: 't2' as TenantId, version: 1 }, t1)).rejects.toBeInstanceOf(ForbiddenError);
+        });
+
+        it('rejects an upsert matching an entity of another tenant', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc', { tenantIsolation: true });
+            const doc = await repository.create({ title: 'a' }, t1);
+
+            await expect(repository.upsert({ id: doc.id, title: 'hijacked' }, t2)).rejects.toBeInstanceOf(ForbiddenError);
+            const result = await repository.upsertMany([{ id: doc.id, title: 'hijacked' }], t2);
+
+            expect(result.failed[0].error).toBeInstanceOf(ForbiddenError);
+            expect(await repository.findById(doc.id, t1)).toMatchObject({ title: 'a', tenantId: 't1', version: 1 });
+        });
+    });
+
+    it('matches LIKE operators with the case rules of the dialect', async () => {
+        const sqlite = new InMemoryRepository<Doc>('Doc');
+        const postgres = new InMemoryRepository<Doc>('Doc', { dialect: 'postgres' });
+        for (const repository of [sqlite, postgres]) {
+            await repository.create({ title: 'Alpha' });
+            await repository.create({ title: 'Émile' });
+            await repository.create({ title: '50%_off' });
+        }
+
+        expect(await sqlite.count(byTitle('startsWith', 'al'))).toBe(1);
+        expect(await sqlite.count(byTitle('like', 'AL%'))).toBe(1);
+        expect(await sqlite.count(byTitle('contains', 'émile'))).toBe(0);
+        expect(await sqlite.count(byTitle('contains', '%_'))).toBe(1);
+        expect(await postgres.count(byTitle('startsWith', 'al'))).toBe(0);
+        expect(await postgres.count(byTitle('ilike', 'émile'))).toBe(1);
+    });
+
+    it('rejects unknown filter operators', async () => {
+        const repository = new InMemoryRepository<Doc>('Doc');
+        await repository.create({ title: 'a' });
+
+        await expect(repository.count(byTitle('matches' as FilterOperator, 'a'))).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    describe('bulk writes', () => {
+        class BatchedDocRepository extends InMemoryRepository<Doc> {
+            public readonly batches: string[][] = [];
+            public readonly created: string[] = [];
+
+            protected override async beforeCreateMany(items: Partial<Doc>[], options?: BulkOptions): Promise<void> {
+                const titles = items.map(item => item.title ?? '');
+                this.batches.push(titles);
+                if (titles.includes('rejected by hook')) {
+                    throw new BusinessRuleError('Batch rejected', 'BATCH_REJECTED');
+                }
+            }
+
+            protected override async afterCreateMany(entities: Doc[], options?: BulkOptions): Promise<void> {
+                this.created.push(...entities.map(entity => entity.title));
+            }
+        }
+
+        it('reports the failed items of a batch and writes the others', async () => {
+            const repository = new BatchedDocRepository('Doc');
+            const taken = await repository.create({ title: 'existing' });
+
+            const result = await repository.createMany([
+                { title: 'a' },
+                { id: taken.id, title: 'duplicate' },
+                { title: 'b' },
+                { title: 'c' },
+            ], { batchSize: 2 });
+
+            expect(result.total).toBe(4);
+            expect(result.succeeded.map(item => item.index)).toEqual([0, 2, 3]);
+            expect(result.failed).toEqual([{ index: 1, error: expect.any(ConflictError) }]);
+            expect(repository.batches).toEqual([['a', 'duplicate'], ['b', 'c']]);
+            expect(repository.created).toEqual(['a', 'b', 'c']);
+            expect(await repository.count()).toBe(4);
+        });
+
+        it('fails every item of a batch whose hook fails', async () => {
+            const repository = new BatchedDocRepository('Doc');
+
+            const result = await repository.createMany([
+                { title: 'a' },
+                { title: 'rejected by hook' },
+                { title: 'b' },
+            ], { batchSize: 2 });
+
+            expect(result.succeeded.map(item => item.index)).toEqual([2]);
+            expect(result.failed.map(item => [item.index, item.error.constructor])).toEqual([[0, BusinessRuleError], [1, BusinessRuleError]]);
+            expect(await repository.count()).toBe(1);
+        });
+
+        it('refuses items of another tenant without failing the rest', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc', { tenantIsolation: true });
+            const t1 = { context: { tenantId: 't1' as TenantId } };
+
+            const result = await repository.createMany([{ title: 'a' }, { title: 'b', tenantId: 't2' as TenantId }], t1);
+
+            expect(result.succeeded).toEqual([{ index: 0, id: expect.any(String), entity: expect.objectContaining({ tenantId: 't1' }) }]);
+            expect(result.failed).toEqual([{ index: 1, error: expect.any(ForbiddenError) }]);
+        });
+
+        it('updates and deletes the matched entities', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            await repository.createMany([{ title: 'a', authorId: 'x' }, { title: 'b', authorId: 'x' }, { title: 'c' }]);
+            const byAuthor = { conditions: [{ field: 'authorId', operator: 'eq' as const, value: 'x' }] };
+
+            const updated = await repository.updateMany(byAuthor, { authorId: 'y' }, { batchSize: 1 });
+            const deleted = await repository.deleteMany({ conditions: [{ field: 'authorId', operator: 'eq', value: 'y' }] });
+
+            expect(updated.succeeded.map(item => item.entity)).toMatchObject([{ authorId: 'y', version: 2 }, { authorId: 'y', version: 2 }]);
+            expect(deleted.succeeded.map(item => item.id)).toEqual(updated.succeeded.map(item => item.id));
+            expect((await repository.findMany({})).map(doc => doc.title)).toEqual(['c']);
+            expect(await repository.deleteMany({ conditions: [{ field: 'id', operator: 'eq', value: 'missing' as EntityId }] }))
+                .toEqual({ total: 0, succeeded: [], failed: [] });
+        });
+    });
+
+    describe('upsert and findOrCreate', () => {
+        class HookedDocRepository extends InMemoryRepository<Doc> {
+            public readonly hooks: string[] = [];
+            public race?: () => Promise<void>;
+
+            protected override async beforeCreate(data: Partial<Doc>, options?: CreateOptions): Promise<void> {
+                this.hooks.push(`create:${data.title}`);
+                const race = this.race;
+                this.race = undefined;
+                await race?.();
+            }
+
+            protected override async beforeUpdate(id: EntityId, data: Partial<Doc>): Promise<void> {
+                this.hooks.push(`update:${data.title}`);
+            }
+        }
+
+        const byTitle = (title: string) => ({ conditions: [{ field: 'title', operator: 'eq' as const, value: title }] });
+
+        it('creates, then updates the entity matching the conflict fields', async () => {
+            const repository = new HookedDocRepository('Doc');
+
+            const created = await repository.upsert({ title: 'a', authorId: 'x' }, { conflictFields: ['title'] });
+            const updated = await repository.upsert({ title: 'a', authorId: 'y' }, { conflictFields: ['title'] });
+
+            expect(updated).toMatchObject({ id: created.id, authorId: 'y', version: 2 });
+            expect(repository.hooks).toEqual(['create:a', 'update:a']);
+            expect(await repository.count()).toBe(1);
+        });
+
+        it('restores a soft-deleted match', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const doc = await repository.create({ title: 'a' });
+            await repository.delete(doc.id);
+
+            await repository.upsert({ id: doc.id, title: 'b' });
+
+            expect(await repository.findById(doc.id)).toMatchObject({ title: 'b' });
+        });
+
+        it('reports created and updated items of a bulk upsert', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const doc = await repository.create({ title: 'a' });
+
+            const result = await repository.upsertMany([{ id: doc.id, title: 'b' }, { id: 'new' as EntityId, title: 'c' }]);
+
+            expect(result.failed).toEqual([]);
+            expect(result.succeeded.map(item => item.entity?.version)).toEqual([2, 1]);
+            expect(await repository.findById(doc.id)).toMatchObject({ title: 'b' });
+        });
+
+        it('finds the existing entity or creates it', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const existing = await repository.create({ title: 'a' });
+
+            expect(await repository.findOrCreate(byTitle('a'), { title: 'a' })).toMatchObject({ id: existing.id });
+            expect(await repository.findOrCreate(byTitle('b'), { title: 'b' })).toMatchObject({ title: 'b', version: 1 });
+            expect(await repository.count()).toBe(2);
+        });
+
+        it('returns the winner of a concurrent create', async () => {
+            const repository = new HookedDocRepository('Doc');
+            const id = 'doc-1' as EntityId;
+            repository.race = async () => {
+                await repository.create({ id, title: 'a', authorId: 'winner' });
+            };
+
+            const found = await repository.findOrCreate(byTitle('a'), { id, title: 'a', authorId: 'loser' });
+
+            expect(found).toMatchObject({ id, authorId: 'winner' });
+            expect(await repository.count()).toBe(1);
+        });
+
+        it('rethrows a conflict that leaves nothing matching the criteria', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const existing = await repository.create({ title: 'a' });
+
+            await expect(repository.findOrCreate(byTitle('b'), { id: existing.id, title: 'b' })).rejects.toBeInstanceOf(ConflictError);
+        });
+    });
+
+    describe('restore and purge', () => {
+        class RestoringDocRepository extends InMemoryRepository<Doc> {
+            public restores = 0;
+
+            protected override async beforeRestore(entity: Doc, options?: UpdateOptions): Promise<void> {
+                this.restores++;
+            }
+        }
+
+        it('soft deletes and restores entities', async () => {
+            const repository = new RestoringDocRepository('Doc');
+            const doc = await repository.create({ title: 'a' });
+
+            await repository.delete(doc.id);
+            expect(await repository.findById(doc.id)).toBeNull();
+
+            expect(await repository.restore(doc.id)).toMatchObject({ deletedAt: null, version: 3 });
+            expect(await repository.count()).toBe(1);
+            expect(repository.restores).toBe(1);
+        });
+
+        it('returns an entity that is not deleted unchanged', async () => {
+            const repository = new RestoringDocRepository('Doc');
+            const doc = await repository.create({ title: 'a' });
+
+            expect(await repository.restore(doc.id, { expectedVersion: 99 })).toMatchObject({ id: doc.id, version: 1 });
+            expect(repository.restores).toBe(0);
+        });
+
+        it('rejects restoring a missing entity or a stale version', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const doc = await repository.create({ title: 'a' });
+            await repository.delete(doc.id);
+
+            await expect(repository.restore('missing' as EntityId)).rejects.toBeInstanceOf(NotFoundError);
+            await expect(repository.restore(doc.id, { expectedVersion: 1 })).rejects.toBeInstanceOf(ConcurrencyError);
+            expect(await repository.findById(doc.id)).toBeNull();
+        });
+
+        it('restores without a version check when optimistic locking is off', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc', { optimisticLocking: false });
+            const doc = await repository.create({ title: 'a' });
+            await repository.delete(doc.id);
+
+            await expect(repository.restore(doc.id, { expectedVersion: 99 })).resolves.toMatchObject({ id: doc.id });
+        });
+
+        it('purges live and soft-deleted entities permanently', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const live = await repository.create({ title: 'live' });
+            const deleted = await repository.create({ title: 'deleted' });
+            await repository.delete(deleted.id);
+
+            await repository.purge(live.id);
+            await repository.purge(deleted.id);
+
+            expect(await repository.count(undefined, { withDeleted: true })).toBe(0);
+            await expect(repository.purge(live.id)).rejects.toBeInstanceOf(NotFoundError);
+            await expect(repository.restore(deleted.id)).rejects.toBeInstanceOf(NotFoundError);
+        });
+
+        it('purges soft-deleted entities in batches', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            for (const title of ['a', 'b', 'c', 'd', 'e']) {
+                const doc = await repository.create({ title });
+                await repository.delete(doc.id);
+            }
+            const kept = await repository.create({ title: 'kept' });
+
+            const result = await repository.purgeDeleted(new Date(Date.now() + 1000), { batchSize: 2 });
+
+            expect(result.total).toBe(5);
+            expect(result.succeeded).toHaveLength(5);
+            expect(await repository.findById(kept.id)).not.toBeNull();
+            expect(await repository.count(undefined, { withDeleted: true })).toBe(1);
+        });
+
+        it('purges rows once their retention period has elapsed', async () => {
+            const repository = new InMemoryRepository<Doc>('Doc');
+            const doc = await repository.create({ title: 'a' });
+            await repository.delete(doc.id);
+            const retention = createRetentionJob(repository, { retentionDays: 30 });
+
+            expect((await retention.run()).total).toBe(0);
+            const result = await retention.run(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+
+            expect(result.succeeded.map(item => item.id)).toEqual([doc.id]);
+            expect(() => createRetentionJob(repository, { retentionDays: -1 })).toThrow(ValidationError);
+        });
+    });
+
+    describe('cascading deletes', () => {
+        const setup = () => {
+            const relations = createRelationRegistry();
+            const authors = new InMemoryRepository<Doc>('Author', { relations });
+            const posts = new InMemoryRepository<Doc>('Post', { relations });
+            const comments = new InMemoryRepository<Doc>('Comment');
+            const invoices = new InMemoryRepository<Doc>('Invoice');
+            relations
+                .oneToMany(authors, 'posts', posts, { foreignKey: 'authorId' })
+                .oneToMany(authors, 'invoices', invoices, { foreignKey: 'authorId', onDelete: 'restrict' })
+                .oneToMany(posts, 'comments', comments, { foreignKey: 'authorId' });
+            return { authors, posts, comments, invoices };
+        };
+
+        it('deletes dependants at every depth', async () => {
+            const { authors, posts, comments } = setup();
+            const author = await authors.create({ title: 'author' });
+            const post = await posts.create({ title: 'post', authorId: author.id });
+            await comments.create({ title: 'comment', authorId: post.id });
+
+            await authors.delete(author.id, { cascade: true });
+
+            expect(await authors.count()).toBe(0);
+            expect(await posts.count()).toBe(0);
+            expect(await comments.count()).toBe(0);
+            expect(await comments.count(undefined, { withDeleted: true })).toBe(1);
+        });
+
+        it('refuses while a restricted relation has dependants', async () => {
+            const { authors, posts, invoices } = setup();
+            const author = await authors.create({ title: 'author' });
+            await posts.create({ title: 'post', authorId: author.id });
+            const invoice = await invoices.create({ title: 'invoice', authorId: author.id });
+
+            await expect(authors.delete(author.id, { cascade: true })).rejects.toBeInstanceOf(BusinessRuleError);
+            expect(await posts.count()).toBe(1);
+
+            await invoices.delete(invoice.id);
+            await authors.delete(author.id, { cascade: true });
+            expect(await authors.count()).toBe(0);
+            expect(await posts.count()).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createSerializedResponse, createSerializer, type SecurityContext } from '../../src/index.js';
+
+interface User {
+    id: string;
+    email: string;
+    name: string;
+    passwordHash: string;
+    apiToken?: string;
+    notes?: string;
+    createdBy: string;
+    createdAt: Date;
+    metadata?: Record<string, unknown>;
+}
+
+const user: User = {
+    id: 'u1',
+    email: 'ada@example.com',
+    name: 'Ada',
+    passwordHash: 'bcrypt$...',
+    apiToken: 'tok_123',
+    notes: 'vip',
+    createdBy: 'u1',
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    metadata: { plan: 'pro', resetToken: 'abc', lastLogin: new Date('2024-03-02T00:00:00Z') },
+};
+
+const context = (fields: Partial<SecurityContext>): SecurityContext => ({ permissions: [], roles: [], ...fields });
+
+const serializer = createSerializer<User>({
+    fields: {
+        email: 'owner',
+        notes: { visibility: 'internal', roles: ['support'] },
+        name: { rename: 'displayName' },
+    },
+    internalRoles: ['admin'],
+    dateFormat: 'epoch',
+});
+
+describe('EntitySerializer', () => {
+    it('shows public fields only to the public audience and never sensitive ones', () => {
+        expect(serializer.serialize(user)).toEqual({
+            id: 'u1',
+            displayName: 'Ada',
+            createdBy: 'u1',
+            createdAt: 1709287200,
+            metadata: { plan: 'pro', lastLogin: 1709337600 },
+        });
+    });
+
+    it('adds owner fields for the owner and role-granted fields for their roles', () => {
+        expect(serializer.serialize(user, { context: context({ userId: 'u1' }) })).toHaveProperty('email');
+        expect(serializer.serialize(user, { context: context({ userId: 'u2' }) })).not.toHaveProperty('email');
+        expect(serializer.serialize(user, { context: context({ roles: ['support'] }) })).toMatchObject({ notes: 'vip' });
+    });
+
+    it('shows sensitive fields to internal roles only', () => {
+        const output = serializer.serialize(user, { context: context({ roles: ['admin'] }) });
+
+        expect(output).toMatchObject({ passwordHash: 'bcrypt$...', apiToken: 'tok_123', metadata: { resetToken: 'abc' } });
+    });
+
+    it('keeps sensitive fields hidden with a public default and an explicit rule to expose them', () => {
+        const exposing = createSerializer<User>({ defaultVisibility: 'public', fields: { apiToken: 'owner' } });
+
+        expect(exposing.serialize(user)).not.toHaveProperty('passwordHash');
+        expect(exposing.serialize(user, { context: context({ userId: 'u1' }) })).toMatchObject({ apiToken: 'tok_123' });
+    });
+
+    it('narrows output with include and exclude without revealing hidden fields', () => {
+        expect(serializer.serialize(user, { include: ['id', 'email', 'passwordHash'] })).toEqual({ id: 'u1' });
+        expect(Object.keys(serializer.serialize(user, { exclude: ['metadata', 'createdAt'] })))
+            .toEqual(['id', 'displayName', 'createdBy']);
+    });
+
+    it('serializes response data for the caller', () => {
+        const response = createSerializedResponse([user], serializer, { context: context({ userId: 'u1' }) });
+
+        expect(response.data).toEqual([expect.objectContaining({ email: 'ada@example.com' })]);
+        expect(response.data).toEqual([expect.not.objectContaining({ passwordHash: expect.anything() })]);
+    });
+});
@@ -0,0 +1,36 @@
+import Database from 'better-sqlite3';
+
+/**
+ * In-process stand-in for a Cloudflare D1 binding, backed by better-sqlite3
+ * @description Covers the statement and batch calls made by the D1 adapter and Drizzle. A batch runs in one
+ * SQLite transaction and rolls back entirely when a statement fails, as on D1.
+ */
+export function createTestD1(): { d1: D1Database; sqlite: Database.Database } {
+    const sqlite = new Database(':memory:');
+
+    const execute = (sql: string, params: unknown[]) => {
+        const prepared = sqlite.prepare(sql);
+        return prepared.reader
+            ? { success: true, results: prepared.all(...params) as Record<string, unknown>[], meta: { changes: 0 } }
+            : { success: true, results: [], meta: { changes: prepared.run(...params).changes } };
+    };
+
+    const statement = (sql: string, params: unknown[] = []) => ({
+        sql,
+        params,
+        bind: (...values: unknown[]) => statement(sql, values),
+        all: async () => execute(sql, params),
+        run: async () => execute(sql, params),
+        first: async () => execute(sql, params).results[0] ?? null,
+        raw: async () => execute(sql, params).results.map(row => Object.values(row)),
+    });
+
+    const d1 = {
+        prepare: (sql: string) => statement(sql),
+        batch: async (statements: Array<ReturnType<typeof statement>>) => {
+            return sqlite.transaction(() => statements.map(({ sql, params }) => execute(sql, params)))();
+        },
+    };
+
+    return { d1: d1 as unknown as D1Database, sqlite };
+}